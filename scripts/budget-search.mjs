@@ -0,0 +1,268 @@
+// ============================================================
+// 予算探索のコマンドライン版
+// ブラウザを開かずに「全店で1000円ちょうどの組み合わせ」などを調べる。
+// TypeScript のソース（src/restaurants, src/budgetSearch.ts）は Vite 経由で読み込む
+//
+// 例:
+//   npm run search -- --budget 1000
+//   npm run search -- -r hidakaya --budget 1500 --mode maximize-count --format csv
+//   npm run search -- --config search.json --exclude sz_tiramisu
+// ============================================================
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { createServer } from "vite";
+
+const USAGE = `使い方: npm run search -- [オプション]
+
+  -r, --restaurant <id>      店舗ID（複数指定可。省略時は全店）
+  -c, --config <file>        BudgetSearchConfig の JSON（以下のオプションで上書き）
+  -b, --budget <円>          予算（range では上限）
+      --min-budget <円>      range の下限
+  -n, --max-items <品>       品数上限（既定 4）
+      --min-items <品>       品数下限
+  -m, --mode <mode>          exact | range | maximize-price | maximize-count
+      --require <id[:個数]>  必ず含める品（複数指定可）
+      --exclude <id>         除外する品（複数指定可）
+      --category-limit <カテゴリ=個数>  カテゴリ上限（複数指定可）
+      --item-limit <id=個数> 品ごとの上限（複数指定可）
+      --group                同価格の互換品をグループ化する
+      --no-duplicates        同じ品は1個まで
+      --addons               トッピング（大盛など）を付けた組み合わせも探す
+      --date <YYYY-MM-DD>    その日に販売期間外の品を除く
+      --takeout              持ち帰り（税率8%）の価格で探す（持ち帰りに対応した店のみ）
+      --as-of <YYYY-MM-DD>   その日時点の価格で探す（価格改定の履歴がある店のみ）
+  -f, --format <format>      table | json | csv（既定 table）
+  -l, --limit <件>           1店あたりの表示件数（既定 20。json は探索結果の先頭ページ＝最大 400 件をそのまま出す）
+  -h, --help                 このヘルプを表示
+
+到達不可能・条件に合う組み合わせが0件の店舗があれば、その情報を標準エラーに出して終了コード 2 で終わる。
+条件が多すぎて探索できない店舗があれば終了コード 1。`;
+
+const { values } = parseArgs({
+  options: {
+    restaurant: { type: "string", short: "r", multiple: true },
+    config: { type: "string", short: "c" },
+    budget: { type: "string", short: "b" },
+    "min-budget": { type: "string" },
+    "max-items": { type: "string", short: "n" },
+    "min-items": { type: "string" },
+    mode: { type: "string", short: "m" },
+    require: { type: "string", multiple: true },
+    exclude: { type: "string", multiple: true },
+    "category-limit": { type: "string", multiple: true },
+    "item-limit": { type: "string", multiple: true },
+    group: { type: "boolean" },
+    "no-duplicates": { type: "boolean" },
+    addons: { type: "boolean" },
+    date: { type: "string" },
+    takeout: { type: "boolean" },
+    "as-of": { type: "string" },
+    format: { type: "string", short: "f", default: "table" },
+    limit: { type: "string", short: "l", default: "20" },
+    help: { type: "boolean", short: "h" },
+  },
+});
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const fail = (message) => {
+  console.error(`エラー: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const toNumber = (raw, name) => {
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) fail(`${name} には0以上の数値を指定してください: ${raw}`);
+  return n;
+};
+
+// "key=value" / "key:value" 形式を Record<string, number> にする
+const toRecord = (list, sep, name) =>
+  Object.fromEntries(
+    (list ?? []).map((entry) => {
+      const i = entry.lastIndexOf(sep);
+      if (i <= 0) fail(`${name} は "名前${sep}個数" の形式で指定してください: ${entry}`);
+      return [entry.slice(0, i), toNumber(entry.slice(i + 1), name)];
+    })
+  );
+
+function buildConfig(restaurant) {
+  const base = values.config ? JSON.parse(readFileSync(values.config, "utf8")) : {};
+  const config = {
+    budget: restaurant.defaultTargets.budget ?? 1000,
+    maxItems: 4,
+    mode: "exact",
+    requiredIds: [],
+    requiredQty: {},
+    excludedIds: [],
+    categoryLimits: {},
+    itemLimits: {},
+    noDuplicates: false,
+    groupEquivalents: false,
+    ...base,
+  };
+  if (values.budget !== undefined) config.budget = toNumber(values.budget, "--budget");
+  if (values["min-budget"] !== undefined) config.minBudget = toNumber(values["min-budget"], "--min-budget");
+  if (values["max-items"] !== undefined) config.maxItems = Math.max(1, toNumber(values["max-items"], "--max-items"));
+  if (values["min-items"] !== undefined) config.minItems = toNumber(values["min-items"], "--min-items");
+  if (values.mode !== undefined) config.mode = values.mode;
+  if (values.require) {
+    for (const entry of values.require) {
+      const [id, qty] = entry.split(":");
+      config.requiredIds = [...config.requiredIds, id];
+      if (qty !== undefined) config.requiredQty = { ...config.requiredQty, [id]: toNumber(qty, "--require") };
+    }
+  }
+  if (values.exclude) config.excludedIds = [...config.excludedIds, ...values.exclude];
+  config.categoryLimits = { ...config.categoryLimits, ...toRecord(values["category-limit"], "=", "--category-limit") };
+  config.itemLimits = { ...config.itemLimits, ...toRecord(values["item-limit"], "=", "--item-limit") };
+  if (values.group) config.groupEquivalents = true;
+  if (values["no-duplicates"]) config.noDuplicates = true;
+  if (values.addons && restaurant.categoryAddons) config.categoryAddons = restaurant.categoryAddons;
+  if (values.date !== undefined) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(values.date)) fail(`--date は YYYY-MM-DD で指定してください: ${values.date}`);
+    config.saleDate = values.date;
+  }
+
+  if (!["exact", "range", "maximize-price", "maximize-count"].includes(config.mode)) {
+    fail(`--mode が不正です: ${config.mode}`);
+  }
+  return config;
+}
+
+// 全角文字を幅2として数える（表の桁揃え用）
+const width = (s) => [...s].reduce((w, ch) => w + (/[\u0000-\u00ff\uff61-\uff9f]/.test(ch) ? 1 : 2), 0);
+const pad = (s, w, right = false) => {
+  const fill = " ".repeat(Math.max(0, w - width(s)));
+  return right ? fill + s : s + fill;
+};
+const csvCell = (s) => (/[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+
+const describeLines = (result, items) =>
+  result.lines
+    .map((l) => {
+      const name = (id) => items.find((it) => it.id === id)?.name ?? id;
+      const addons = (l.addonIds ?? []).map((aid) => `＋${name(aid)}`).join("");
+      return `${name(l.itemId)}${addons}×${l.qty}`;
+    })
+    .join(" / ");
+
+if (values["as-of"] !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(values["as-of"])) {
+  fail(`--as-of は YYYY-MM-DD で指定してください: ${values["as-of"]}`);
+}
+
+const format = values.format;
+if (!["table", "json", "csv"].includes(format)) fail(`--format が不正です: ${format}`);
+const limit = toNumber(values.limit, "--limit");
+
+const server = await createServer({
+  configFile: false,
+  appType: "custom",
+  logLevel: "silent",
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true },
+});
+
+try {
+  const { restaurants } = await server.ssrLoadModule("/src/restaurants/index.ts");
+  const { searchCombinations, withDiagnosis } = await server.ssrLoadModule("/src/budgetSearch.ts");
+  const { withTaxMode } = await server.ssrLoadModule("/src/tax.ts");
+  const { menuAsOf } = await server.ssrLoadModule("/src/priceHistory.ts");
+
+  const ids = values.restaurant ?? restaurants.map((r) => r.id);
+  const unknown = ids.filter((id) => !restaurants.some((r) => r.id === id));
+  if (unknown.length > 0) fail(`店舗IDが見つかりません: ${unknown.join(", ")}（${restaurants.map((r) => r.id).join(", ")}）`);
+
+  const runs = ids.map((id) => {
+    const restaurant = restaurants.find((r) => r.id === id);
+    const config = buildConfig(restaurant);
+    const menu = menuAsOf(restaurant, values["as-of"] ?? null);
+    const items = withTaxMode(menu, values.takeout ? "takeout" : "eat-in");
+    const outcome = withDiagnosis(items, config, searchCombinations(items, config));
+    return { restaurant, config, outcome };
+  });
+
+  if (format === "json") {
+    console.log(
+      JSON.stringify(
+        runs.map(({ restaurant, config, outcome }) => ({ restaurant: restaurant.id, config, outcome })),
+        null,
+        2
+      )
+    );
+  } else if (format === "csv") {
+    console.log(["restaurant", "no", "total", "count", "items"].join(","));
+    for (const { restaurant, outcome } of runs) {
+      if (outcome.kind !== "ok") continue;
+      outcome.results.slice(0, limit).forEach((r, i) => {
+        console.log(
+          [restaurant.id, String(r.rank ?? i + 1), String(r.total), String(r.count), describeLines(r, restaurant.items)]
+            .map(csvCell)
+            .join(",")
+        );
+      });
+    }
+  } else {
+    for (const { restaurant, outcome } of runs) {
+      if (outcome.kind !== "ok") continue;
+      const shown = outcome.results.slice(0, limit);
+      console.log(
+        `■ ${restaurant.name}（${restaurant.id}）: ${outcome.totalFound.toLocaleString("ja-JP")} 件` +
+          (outcome.truncated ? "（探索上限で打ち切り）" : "") +
+          (shown.length < outcome.totalFound ? `・先頭 ${shown.length} 件を表示` : "")
+      );
+      const rows = shown.map((r, i) => [
+        `#${r.rank ?? i + 1}`,
+        `${r.total.toLocaleString("ja-JP")}円`,
+        `${r.count}品`,
+        describeLines(r, restaurant.items),
+      ]);
+      const widths = [0, 1, 2].map((c) => Math.max(0, ...rows.map((row) => width(row[c]))));
+      for (const row of rows) {
+        console.log(`  ${pad(row[0], widths[0])}  ${pad(row[1], widths[1], true)}  ${pad(row[2], widths[2], true)}  ${row[3]}`);
+      }
+      console.log();
+    }
+  }
+
+  // 到達不可能・0件の店舗は標準エラーへ（json でも終了コードで分かるようにする。どちらも終了コード 2）
+  let unreachable = false;
+  let failed = false;
+  for (const { restaurant, outcome } of runs) {
+    if (outcome.kind === "error") {
+      failed = true;
+      console.error(`✗ ${restaurant.name}（${restaurant.id}）: 探索できません（${outcome.message}）`);
+      continue;
+    }
+    if (outcome.kind === "unreachable" && outcome.byCounts) {
+      unreachable = true;
+      console.error(`✗ ${restaurant.name}（${restaurant.id}）: 達成不可能（品数・タグ・カテゴリの下限が品数上限を超えています）`);
+    } else if (outcome.kind === "unreachable") {
+      unreachable = true;
+      const near = [
+        outcome.nearestDown !== null && `下に最も近い ${outcome.nearestDown}円`,
+        outcome.nearestUp !== null && `上に最も近い ${outcome.nearestUp}円`,
+      ].filter(Boolean);
+      console.error(
+        `✗ ${restaurant.name}（${restaurant.id}）: 達成不可能（価格は ${outcome.gcd} 円単位` +
+          (near.length > 0 ? `・${near.join("・")}` : "") +
+          "）"
+      );
+    } else if (outcome.totalFound === 0) {
+      unreachable = true;
+      console.error(`✗ ${restaurant.name}（${restaurant.id}）: 条件に合う組み合わせがありません`);
+    } else {
+      continue;
+    }
+    for (const r of outcome.relaxations ?? []) {
+      console.error(`    緩和案: ${r.kind} ${JSON.stringify(r.patch)}`);
+    }
+  }
+  process.exitCode = failed ? 1 : unreachable ? 2 : 0;
+} finally {
+  await server.close();
+}
@@ -2,9 +2,11 @@ import React, { useState, useEffect } from "react";
 import { restaurants } from "./restaurants";
 import type { Restaurant } from "./types";
 import Simulator from "./Simulator";
+import WeeklyPlanner from "./WeeklyPlanner";
+import RestaurantComparison from "./RestaurantComparison";
 
 /** URLハッシュから共有パラメータを読み取る */
-function parseShareHash(): { restaurantId: string; qty: Record<string, number>; cloudId?: string } | null {
+function parseShareHash(): { restaurantId: string; qty: Record<string, number>; cloudId?: string; split?: string } | null {
   const hash = window.location.hash.slice(1);
   if (!hash) return null;
   const params = new URLSearchParams(hash);
@@ -19,13 +21,18 @@ function parseShareHash(): { restaurantId: string; qty: Record<string, number>;
     }
   }
   const savesB64 = params.get("saves") ?? undefined;
-  return { restaurantId: rId, qty, cloudId: savesB64 };
+  const splitB64 = params.get("s") ?? undefined;
+  return { restaurantId: rId, qty, cloudId: savesB64, split: splitB64 };
 }
 
 export default function App() {
   const [selected, setSelected] = useState<Restaurant | null>(null);
   const [sharedQty, setSharedQty] = useState<Record<string, number> | null>(null);
   const [sharedCloudId, setSharedCloudId] = useState<string | null>(null);
+  const [sharedSplit, setSharedSplit] = useState<string | null>(null);
+  const [showPlanner, setShowPlanner] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showSimulator, setShowSimulator] = useState(false); // 独自UIを持つ店舗でシミュレーター側を表示中か
 
   // 起動時にURLハッシュを読み取り、該当レストランを自動選択
   useEffect(() => {
@@ -36,16 +43,33 @@ export default function App() {
       setSelected(restaurant);
       setSharedQty(shared.qty);
       if (shared.cloudId) setSharedCloudId(shared.cloudId);
+      if (shared.split) setSharedSplit(shared.split);
       history.replaceState(null, "", window.location.pathname + window.location.search);
     }
   }, []);
 
+  // 週間ランチ計画（店をまたいで5日分を組む）
+  if (showPlanner) {
+    return <WeeklyPlanner restaurants={restaurants} onBack={() => setShowPlanner(false)} />;
+  }
+
+  // 予算で店を比較
+  if (showCompare) {
+    return (
+      <RestaurantComparison
+        restaurants={restaurants}
+        onSelect={(r) => { setShowCompare(false); setSelected(r); }}
+        onBack={() => setShowCompare(false)}
+      />
+    );
+  }
+
   // 店舗が選ばれたらシミュレーター画面へ
   if (selected) {
-    const handleBack = () => { setSelected(null); setSharedQty(null); setSharedCloudId(null); };
+    const handleBack = () => { setSelected(null); setSharedQty(null); setSharedCloudId(null); setSharedSplit(null); setShowSimulator(false); };
 
-    // 独自UIを持つ店舗はiframeで表示
-    if (selected.iframeSrc) {
+    // 独自UIを持つ店舗はiframeで表示。クーポン・注文時刻などの共通機能はシミュレーターに切り替えて使う
+    if (selected.iframeSrc && !showSimulator) {
       // dev: public/ はルート直下に配信される。prod: BASE_URL配下に配信される
       const iframeSrc = import.meta.env.DEV
         ? `/${selected.iframeSrc}`
@@ -59,6 +83,12 @@ export default function App() {
             >
               ← 店舗選択に戻る
             </button>
+            <button
+              onClick={() => setShowSimulator(true)}
+              className="ml-4 text-neutral-400 hover:text-neutral-100 text-sm font-bold transition"
+            >
+              シミュレーターで開く
+            </button>
           </div>
           <iframe
             src={iframeSrc}
@@ -75,6 +105,8 @@ export default function App() {
         onBack={handleBack}
         initialQty={sharedQty}
         initialCloudId={sharedCloudId}
+        initialSplit={sharedSplit}
+        onOpenCustomUi={selected.iframeSrc ? () => setShowSimulator(false) : undefined}
       />
     );
   }
@@ -110,6 +142,22 @@ export default function App() {
           ))}
         </div>
 
+        <button
+          className="mt-4 w-full rounded-2xl border border-neutral-800 bg-neutral-900 p-4 text-left hover:border-neutral-600 hover:bg-neutral-800 transition"
+          onClick={() => setShowCompare(true)}
+        >
+          <div className="font-bold">🔍 予算で店を比較</div>
+          <div className="mt-1 text-xs text-neutral-500">同じ予算で、各店の最多品数・最高額・ちょうどの組み合わせ数を並べます</div>
+        </button>
+
+        <button
+          className="mt-2 w-full rounded-2xl border border-neutral-800 bg-neutral-900 p-4 text-left hover:border-neutral-600 hover:bg-neutral-800 transition"
+          onClick={() => setShowPlanner(true)}
+        >
+          <div className="font-bold">📅 週間ランチ計画</div>
+          <div className="mt-1 text-xs text-neutral-500">平日5日分を週の予算内で、店をまたいで組み合わせます</div>
+        </button>
+
         <p className="mt-12 text-center text-xs text-neutral-600">
           ※ 価格は変動する場合があります。最新情報は各店舗公式サイトをご確認ください。
         </p>
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import type { Item, AssortmentBox } from "./types";
+import { filledSlots, boxPrice, newBox } from "./assortment";
+import { shortestExpiry, formatExpiryDays } from "./expiry";
+
+// ============================================================
+// 詰め合わせ（箱詰め）モード
+// 入り数を決めた箱に品を詰め、同じ箱をいくつ作るかを指定する
+// ============================================================
+
+export default function AssortmentBuilder({
+  items,
+  allItems,
+  isOffSeason,
+  capacities,
+  boxes,
+  setBoxes,
+  onSave,
+  onApply,
+  yen,
+}: {
+  items: Item[]; // 詰められる品（販売日で絞り込み済み）
+  allItems: Item[]; // 箱の中身の参照用（販売期間外になった品も価格・日持ちを出すため）
+  isOffSeason: (it: Item) => boolean;
+  capacities: number[];
+  boxes: AssortmentBox[];
+  setBoxes: (v: AssortmentBox[] | ((p: AssortmentBox[]) => AssortmentBox[])) => void;
+  onSave: (name: string) => void;
+  onApply: () => void; // 全箱の中身をカートに反映
+  yen: (n: number) => string;
+}) {
+  const [activeId, setActiveId] = useState<string | null>(boxes[0]?.id ?? null);
+  const [saveName, setSaveName] = useState("");
+
+  const byId = new Map(allItems.map((it) => [it.id, it]));
+  const active = boxes.find((b) => b.id === activeId) ?? boxes[0] ?? null;
+  const grandTotal = boxes.reduce((s, b) => s + boxPrice(b, byId) * b.copies, 0);
+  const boxCount = boxes.reduce((s, b) => s + b.copies, 0);
+
+  const updateBox = (id: string, f: (b: AssortmentBox) => AssortmentBox) =>
+    setBoxes((prev) => prev.map((b) => (b.id === id ? f(b) : b)));
+  const addBox = () => {
+    const box = newBox(active?.capacity ?? capacities[0]);
+    setBoxes((prev) => [...prev, box]);
+    setActiveId(box.id);
+  };
+  const duplicateBox = (src: AssortmentBox) => {
+    const box = { ...newBox(src.capacity), items: { ...src.items } };
+    setBoxes((prev) => [...prev, box]);
+    setActiveId(box.id);
+  };
+  const removeBox = (id: string) => {
+    setBoxes((prev) => prev.filter((b) => b.id !== id));
+    if (activeId === id) setActiveId(null);
+  };
+  const setCount = (box: AssortmentBox, itemId: string, n: number) =>
+    updateBox(box.id, (b) => {
+      const next = { ...b.items };
+      if (n > 0) next[itemId] = n;
+      else delete next[itemId];
+      return { ...b, items: next };
+    });
+
+  return (
+    <div className="mt-4 space-y-4">
+      {/* 箱の一覧 */}
+      <div className="flex flex-wrap items-center gap-1">
+        {boxes.map((b, i) => {
+          const full = filledSlots(b) === b.capacity;
+          return (
+            <button
+              key={b.id}
+              className={`rounded-lg px-3 py-1.5 text-sm transition ${
+                active?.id === b.id ? "bg-[var(--accent)] text-white" : "bg-neutral-800 text-neutral-300 hover:bg-neutral-700"
+              }`}
+              onClick={() => setActiveId(b.id)}
+            >
+              箱{i + 1}（{filledSlots(b)}/{b.capacity}）{b.copies > 1 && `×${b.copies}`}
+              {full && " ✓"}
+            </button>
+          );
+        })}
+        <button
+          className="rounded-lg bg-neutral-900 px-3 py-1.5 text-sm text-neutral-300 hover:bg-neutral-800 transition"
+          onClick={addBox}
+        >
+          ＋ 箱を追加
+        </button>
+      </div>
+
+      {active && (
+        <div className="rounded-2xl border border-neutral-800 p-4">
+          {(() => {
+            const filled = filledSlots(active);
+            const remaining = active.capacity - filled;
+            const price = boxPrice(active, byId);
+            const contents = Object.entries(active.items)
+              .map(([id, n]) => ({ item: byId.get(id), n }))
+              .filter((x): x is { item: Item; n: number } => x.item !== undefined);
+            const shortest = shortestExpiry(contents.map((x) => x.item));
+            return (
+              <>
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <label className="flex items-center gap-1.5">
+                    <span className="text-neutral-400">入り数</span>
+                    <select
+                      className="rounded-lg bg-neutral-900 px-2 py-1"
+                      value={active.capacity}
+                      onChange={(e) => updateBox(active.id, (b) => ({ ...b, capacity: Number(e.target.value) }))}
+                    >
+                      {[...new Set([...capacities, active.capacity])].sort((a, b) => a - b).map((c) => (
+                        <option key={c} value={c}>{c}個入</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1.5">
+                    <span className="text-neutral-400">同じ箱を</span>
+                    <input
+                      type="number"
+                      min={1}
+                      className="w-14 rounded-lg bg-neutral-900 px-2 py-1 text-right"
+                      value={active.copies}
+                      onChange={(e) =>
+                        updateBox(active.id, (b) => ({ ...b, copies: Math.max(1, Math.floor(Number(e.target.value) || 1)) }))
+                      }
+                    />
+                    <span className="text-neutral-400">箱</span>
+                  </label>
+                  <div className="ml-auto flex gap-1 text-xs">
+                    <button
+                      className="rounded bg-neutral-800 px-2 py-1 hover:bg-neutral-700 transition"
+                      onClick={() => duplicateBox(active)}
+                    >
+                      複製
+                    </button>
+                    <button
+                      className="rounded bg-neutral-800 px-2 py-1 hover:bg-neutral-700 transition"
+                      onClick={() => removeBox(active.id)}
+                    >
+                      削除
+                    </button>
+                  </div>
+                </div>
+
+                {/* 詰めた数・残り・金額 */}
+                <div className="mt-3 h-2 overflow-hidden rounded-full bg-neutral-800">
+                  <div
+                    className={`h-full transition-all ${remaining < 0 ? "bg-red-500" : "bg-[var(--accent)]"}`}
+                    style={{ width: `${Math.min(100, (filled / active.capacity) * 100)}%` }}
+                  />
+                </div>
+                <div className="mt-1 flex flex-wrap items-baseline justify-between gap-2 text-sm">
+                  <span className={remaining < 0 ? "text-red-400" : "text-neutral-300"}>
+                    {filled}/{active.capacity}個
+                    {remaining > 0 ? `（残り ${remaining}個）` : remaining < 0 ? `（${-remaining}個オーバー）` : "（ちょうど）"}
+                  </span>
+                  <span className="font-semibold">
+                    1箱 {yen(price)}
+                    {active.copies > 1 && <span className="ml-2 text-neutral-400">×{active.copies} = {yen(price * active.copies)}</span>}
+                  </span>
+                </div>
+                {shortest && (
+                  <div className="mt-1 text-xs text-neutral-500">
+                    日持ち：{shortest.expiry.kind} {formatExpiryDays(shortest.expiry.days)}（{shortest.item.name}）
+                    {contents.some((x) => x.item.expiry?.includes("要冷蔵")) && <span className="ml-1 text-sky-400">要冷蔵の品あり</span>}
+                  </div>
+                )}
+
+                {contents.some((x) => isOffSeason(x.item)) && (
+                  <div className="mt-1 text-xs text-amber-400">⚠ 販売日に売っていない品が入っています</div>
+                )}
+
+                {/* 箱の中身 */}
+                {contents.length > 0 && (
+                  <div className="mt-3 space-y-1">
+                    {contents.map(({ item, n }) => (
+                      <div key={item.id} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 text-neutral-200">
+                          {item.name}
+                          {isOffSeason(item) && <span className="ml-1 text-xs text-amber-400">販売期間外</span>}
+                        </span>
+                        <button
+                          className="h-6 w-6 rounded bg-neutral-800 hover:bg-neutral-700 transition text-xs"
+                          onClick={() => setCount(active, item.id, n - 1)}
+                          aria-label="減らす"
+                        >
+                          −
+                        </button>
+                        <span className="w-5 text-center text-xs">{n}</span>
+                        <button
+                          className="h-6 w-6 rounded bg-neutral-800 hover:bg-neutral-700 transition text-xs disabled:opacity-40"
+                          disabled={remaining <= 0}
+                          onClick={() => setCount(active, item.id, n + 1)}
+                          aria-label="増やす"
+                        >
+                          ＋
+                        </button>
+                        <span className="w-16 text-right text-xs tabular-nums">{yen(item.price * n)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* 詰められる品 */}
+                <div className="mt-4 grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-4">
+                  {items.map((it) => (
+                    <button
+                      key={it.id}
+                      className="rounded-xl border border-neutral-800 bg-neutral-900/50 px-2 py-1.5 text-left text-xs hover:border-neutral-600 transition disabled:opacity-40"
+                      disabled={remaining <= 0}
+                      onClick={() => setCount(active, it.id, (active.items[it.id] ?? 0) + 1)}
+                    >
+                      <div className="text-neutral-200">{it.name}</div>
+                      <div className="text-neutral-500">
+                        {yen(it.price)}
+                        {it.expiry && <span className="ml-1">{it.expiry}</span>}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </>
+            );
+          })()}
+        </div>
+      )}
+
+      {/* 全体の合計・保存 */}
+      {boxes.length > 0 && (
+        <div className="rounded-2xl border border-neutral-800 p-4">
+          <div className="flex items-baseline justify-between">
+            <span className="text-sm text-neutral-400">{boxCount}箱の合計（箱代別）</span>
+            <span className="text-2xl font-bold">{yen(grandTotal)}</span>
+          </div>
+          <div className="mt-3 flex flex-wrap gap-2 text-sm">
+            <input
+              className="min-w-0 flex-1 rounded-lg bg-neutral-900 px-3 py-1.5 placeholder-neutral-500"
+              placeholder="保存名（例: 会社の集まり用）"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+            />
+            <button
+              className="rounded-lg bg-[var(--accent)] px-3 py-1.5 text-white hover:opacity-90 transition"
+              onClick={() => {
+                onSave(saveName);
+                setSaveName("");
+              }}
+            >
+              詰め合わせを保存
+            </button>
+            <button
+              className="rounded-lg bg-neutral-800 px-3 py-1.5 hover:bg-neutral-700 transition"
+              onClick={onApply}
+            >
+              カートに反映
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
+import { useState } from "react";
 import type {
   Item,
   Restaurant,
   BudgetSearchConfig,
   BudgetSearchOutcome,
   BudgetSearchResult,
+  BudgetSearchRelaxation,
 } from "./types";
 
 // ============================================================
@@ -13,19 +15,35 @@ import type {
 export default function BudgetSearchPanel({
   items,
   restaurant,
+  tags,
+  cart,
+  priceLabel,
   config,
   setConfig,
   outcome,
+  partialResults,
+  progress,
   onSearch,
+  onCancel,
+  onPage,
+  pageSize,
   onApply,
   yen,
 }: {
   items: Item[];
   restaurant: Restaurant;
+  tags: string[]; // タグ条件の候補（tagOrder 順）
+  cart: { count: number; price: number }; // 現在のカート（「残りを埋める」の表示用）
+  priceLabel?: string; // 探索に使う価格の種類（例: "持ち帰り"。店内/持ち帰りを切り替えられる店のみ）
   config: BudgetSearchConfig;
   setConfig: (v: BudgetSearchConfig | ((p: BudgetSearchConfig) => BudgetSearchConfig)) => void;
   outcome: BudgetSearchOutcome | null;
+  partialResults: BudgetSearchResult[]; // 探索中（または中止時）の途中結果
+  progress: number | null; // 探索済みノード数。探索中以外は null
   onSearch: () => void;
+  onCancel: () => void;
+  onPage: (offset: number) => void; // ちょうど・範囲探索の結果ページ切り替え
+  pageSize: number;
   onApply: (result: BudgetSearchResult) => void;
   yen: (n: number) => string;
 }) {
@@ -33,18 +51,81 @@ export default function BudgetSearchPanel({
     list.includes(id) ? list.filter((x) => x !== id) : [...list, id];
 
   const findItem = (id: string) => items.find((it) => it.id === id);
+  const searching = progress !== null;
+  // maximize-* の結果の並べ替え・絞り込み
+  const [resultSort, setResultSort] = useState<"rank" | "total" | "count">("rank");
+  const [paretoOnly, setParetoOnly] = useState(false);
+
+  const ranked = outcome?.kind === "ok" && outcome.results.some((r) => r.rank !== undefined);
+  // 設定中の個数条件（探索に失敗したとき、外す候補として出す）
+  type CountCondition = { label: string; remove: (p: BudgetSearchConfig) => BudgetSearchConfig };
+  const countConditions: CountCondition[] = [
+    ...((config.minItems ?? 0) > 0
+      ? [{ label: `${config.minItems}品以上`, remove: (p: BudgetSearchConfig) => ({ ...p, minItems: undefined }) }]
+      : []),
+    ...Object.entries(config.categoryMins ?? {}).filter(([, n]) => n > 0).map(([cat, n]) => ({
+      label: `${cat}を${n}品以上`,
+      remove: (p: BudgetSearchConfig) => ({ ...p, categoryMins: withCount(p.categoryMins, cat, null) }),
+    })),
+    ...Object.entries(config.tagMins ?? {}).filter(([, n]) => n > 0).map(([tag, n]) => ({
+      label: `タグ「${tag}」を${n}品以上`,
+      remove: (p: BudgetSearchConfig) => ({ ...p, tagMins: withCount(p.tagMins, tag, null) }),
+    })),
+    ...Object.entries(config.tagLimits ?? {}).map(([tag, n]) => ({
+      label: `タグ「${tag}」は${n}品まで`,
+      remove: (p: BudgetSearchConfig) => ({ ...p, tagLimits: withCount(p.tagLimits, tag, null) }),
+    })),
+  ];
+
+  const displayedResults =
+    outcome?.kind !== "ok"
+      ? []
+      : !ranked
+      ? outcome.results
+      : outcome.results
+          .filter((r) => !paretoOnly || r.pareto)
+          .sort((a, b) => {
+            if (resultSort === "total") return b.total - a.total || b.count - a.count;
+            if (resultSort === "count") return b.count - a.count || b.total - a.total;
+            return (a.rank ?? 0) - (b.rank ?? 0);
+          });
 
   return (
     <div className="mt-4 space-y-4">
       {/* 条件設定 */}
       <div className="rounded-2xl border border-neutral-800 p-4">
-        <h2 className="mb-3 text-lg font-semibold">予算探索の条件</h2>
+        <h2 className="mb-3 text-lg font-semibold">
+          予算探索の条件
+          {priceLabel && <span className="ml-2 text-xs font-normal text-neutral-500">{priceLabel}の価格で探索</span>}
+        </h2>
 
         <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
           {/* 予算・品数上限・モード */}
           <div className="space-y-3">
+            {config.mode === "range" && (
+              <div className="flex items-center gap-2 text-sm">
+                <span className="shrink-0 text-neutral-400 w-20">予算下限</span>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  className="w-full rounded-lg bg-neutral-900 px-3 py-1.5 text-right tabular-nums"
+                  value={(config.minBudget ?? config.budget).toLocaleString("ja-JP")}
+                  onChange={(e) => {
+                    const raw = e.target.value.replace(/,/g, "");
+                    const n = Number(raw);
+                    if (raw === "" || (Number.isFinite(n) && n >= 0)) {
+                      setConfig((prev) => ({ ...prev, minBudget: raw === "" ? 0 : n }));
+                    }
+                  }}
+                />
+                <span className="shrink-0 text-neutral-400">円</span>
+              </div>
+            )}
+
             <div className="flex items-center gap-2 text-sm">
-              <span className="shrink-0 text-neutral-400 w-20">予算</span>
+              <span className="shrink-0 text-neutral-400 w-20">
+                {config.mode === "range" ? "予算上限" : "予算"}
+              </span>
               <input
                 type="text"
                 inputMode="numeric"
@@ -77,10 +158,28 @@ export default function BudgetSearchPanel({
               <span className="shrink-0 text-neutral-400">品</span>
             </div>
 
+            <div className="flex items-center gap-2 text-sm">
+              <span className="shrink-0 text-neutral-400 w-20">品数下限</span>
+              <input
+                type="number"
+                min={0}
+                max={config.maxItems}
+                className="w-full rounded-lg bg-neutral-900 px-3 py-1.5 text-right tabular-nums"
+                value={config.minItems ?? ""}
+                placeholder="なし"
+                onChange={(e) => {
+                  const n = Math.max(0, Math.min(config.maxItems, Math.floor(Number(e.target.value) || 0)));
+                  setConfig((prev) => ({ ...prev, minItems: n > 0 ? n : undefined }));
+                }}
+              />
+              <span className="shrink-0 text-neutral-400">品</span>
+            </div>
+
             <div className="flex flex-wrap gap-3 text-sm">
               {(
                 [
                   ["exact", "ちょうど探索"],
+                  ["range", "範囲内で探索"],
                   ["maximize-price", "予算以内で最高額"],
                   ["maximize-count", "予算以内で最多品数"],
                 ] as const
@@ -107,41 +206,122 @@ export default function BudgetSearchPanel({
               />
               <span>同価格の互換品をグループ化する</span>
             </label>
+
+            <label className="flex items-center gap-1.5 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={config.noDuplicates ?? false}
+                onChange={(e) =>
+                  setConfig((prev) => ({ ...prev, noDuplicates: e.target.checked }))
+                }
+              />
+              <span>同じ品は1個まで</span>
+            </label>
+
+            <label className="flex items-center gap-1.5 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={config.fillFromCart ?? false}
+                onChange={(e) =>
+                  setConfig((prev) => ({ ...prev, fillFromCart: e.target.checked }))
+                }
+              />
+              <span>いまのカートに足して探す（残りを埋める）</span>
+            </label>
+            {config.fillFromCart && (
+              <div className="text-xs text-neutral-500 tabular-nums">
+                {cart.count > 0 ? (
+                  <>
+                    カート {cart.count} 品 {yen(cart.price)} を固定・残り{" "}
+                    <span className={config.budget - cart.price < 0 ? "text-red-400" : "text-neutral-300"}>
+                      {yen(config.budget - cart.price)}
+                    </span>
+                    {config.mode === "range" ? "（上限まで）" : ""}
+                  </>
+                ) : (
+                  "カートが空なので通常の探索と同じです"
+                )}
+              </div>
+            )}
+
+            {restaurant.categoryAddons && (
+              <label className="flex items-center gap-1.5 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={config.categoryAddons !== undefined}
+                  onChange={(e) =>
+                    setConfig((prev) => ({
+                      ...prev,
+                      categoryAddons: e.target.checked ? restaurant.categoryAddons : undefined,
+                    }))
+                  }
+                />
+                <span>トッピング（大盛など）を付けた組み合わせも探す</span>
+              </label>
+            )}
           </div>
 
-          {/* カテゴリ上限 */}
-          <div>
-            <div className="text-sm text-neutral-400 mb-1.5">カテゴリ上限（空欄=無制限）</div>
-            <div className="space-y-1.5">
-              {restaurant.categories.map((cat) => (
-                <div key={cat} className="flex items-center gap-2 text-sm">
-                  <span className="flex-1 truncate">{cat}</span>
-                  <input
-                    type="number"
-                    min={0}
-                    className="w-16 rounded-lg bg-neutral-900 px-2 py-1 text-right text-xs tabular-nums"
-                    value={config.categoryLimits[cat] ?? ""}
-                    onChange={(e) => {
-                      const raw = e.target.value;
-                      setConfig((prev) => {
-                        const next = { ...prev.categoryLimits };
-                        if (raw === "") {
-                          delete next[cat];
-                        } else {
-                          next[cat] = Math.max(0, Number(raw) || 0);
+          <div className="space-y-4">
+            {/* カテゴリ下限・上限 */}
+            <div>
+              <div className="text-sm text-neutral-400 mb-1.5">カテゴリ下限・上限（空欄=制限なし）</div>
+              <div className="space-y-1.5">
+                {restaurant.categories.map((cat) => (
+                  <div key={cat} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 truncate">{cat}</span>
+                    <CountInput
+                      placeholder="最低"
+                      value={config.categoryMins?.[cat]}
+                      onChange={(n) =>
+                        setConfig((prev) => ({ ...prev, categoryMins: withCount(prev.categoryMins, cat, n) }))
+                      }
+                    />
+                    <span className="text-neutral-500">〜</span>
+                    <CountInput
+                      placeholder="最大"
+                      value={config.categoryLimits[cat]}
+                      onChange={(n) =>
+                        setConfig((prev) => ({ ...prev, categoryLimits: withCount(prev.categoryLimits, cat, n) }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* タグ条件（例: 主食を1品以上、辛いは1品まで） */}
+            {tags.length > 0 && (
+              <div>
+                <div className="text-sm text-neutral-400 mb-1.5">タグ条件（空欄=制限なし）</div>
+                <div className="space-y-1.5">
+                  {tags.map((tag) => (
+                    <div key={tag} className="flex items-center gap-2 text-sm">
+                      <span className="flex-1 truncate">{tag}</span>
+                      <CountInput
+                        placeholder="最低"
+                        value={config.tagMins?.[tag]}
+                        onChange={(n) =>
+                          setConfig((prev) => ({ ...prev, tagMins: withCount(prev.tagMins, tag, n) }))
                         }
-                        return { ...prev, categoryLimits: next };
-                      });
-                    }}
-                  />
+                      />
+                      <span className="text-neutral-500">〜</span>
+                      <CountInput
+                        placeholder="最大"
+                        value={config.tagLimits?.[tag]}
+                        onChange={(n) =>
+                          setConfig((prev) => ({ ...prev, tagLimits: withCount(prev.tagLimits, tag, n) }))
+                        }
+                      />
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
+              </div>
+            )}
           </div>
         </div>
 
-        {/* 必須品・除外品（カテゴリごとに折りたたみ） */}
-        <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+        {/* 必須品・除外品・品ごとの上限（カテゴリごとに折りたたみ） */}
+        <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
           <ItemPicker
             title="必ず含める品"
             restaurant={restaurant}
@@ -151,6 +331,10 @@ export default function BudgetSearchPanel({
             onToggle={(id) =>
               setConfig((prev) => ({ ...prev, requiredIds: toggleInSet(prev.requiredIds, id) }))
             }
+            quantities={config.requiredQty ?? {}}
+            onQuantity={(id, n) =>
+              setConfig((prev) => ({ ...prev, requiredQty: { ...prev.requiredQty, [id]: n } }))
+            }
           />
           <ItemPicker
             title="除外する品"
@@ -162,29 +346,116 @@ export default function BudgetSearchPanel({
               setConfig((prev) => ({ ...prev, excludedIds: toggleInSet(prev.excludedIds, id) }))
             }
           />
+          <ItemLimitPicker
+            restaurant={restaurant}
+            items={items}
+            limits={config.itemLimits ?? {}}
+            yen={yen}
+            onChange={(id, n) =>
+              setConfig((prev) => {
+                const next = { ...prev.itemLimits };
+                if (n === null) {
+                  delete next[id];
+                } else {
+                  next[id] = n;
+                }
+                return { ...prev, itemLimits: next };
+              })
+            }
+          />
         </div>
 
-        <button
-          className="mt-4 w-full rounded-xl bg-[var(--accent)] px-4 py-2.5 text-sm font-semibold text-white hover:bg-[var(--accent-hover)] transition"
-          onClick={onSearch}
-        >
-          探索実行
-        </button>
+        {searching ? (
+          <button
+            className="mt-4 w-full rounded-xl bg-neutral-700 px-4 py-2.5 text-sm font-semibold text-white hover:bg-neutral-600 transition"
+            onClick={onCancel}
+          >
+            探索を中止
+          </button>
+        ) : (
+          <button
+            className="mt-4 w-full rounded-xl bg-[var(--accent)] px-4 py-2.5 text-sm font-semibold text-white hover:bg-[var(--accent-hover)] transition"
+            onClick={onSearch}
+          >
+            探索実行
+          </button>
+        )}
       </div>
 
+      {/* 探索中の途中結果（中止した場合もそのまま残す） */}
+      {!outcome && (searching || partialResults.length > 0) && (
+        <div className="rounded-2xl border border-neutral-800 p-4">
+          <div className="mb-3 flex items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold">
+              {searching ? "探索中…（暫定結果）" : "中止しました（途中結果）"}
+            </h2>
+            {searching && (
+              <span className="text-xs text-neutral-500 tabular-nums">
+                {progress.toLocaleString("ja-JP")} ノード探索済み
+              </span>
+            )}
+          </div>
+          {partialResults.length > 0 && (
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto pr-1">
+              {partialResults.map((result, i) => (
+                <ResultCard key={i} result={result} findItem={findItem} onApply={onApply} yen={yen} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* 結果表示 */}
+      {outcome && outcome.kind === "error" && (
+        <div className="rounded-2xl border border-red-800 bg-red-950/30 p-4 text-sm text-red-300">
+          ✗ 探索に失敗しました（{outcome.message}）。品数上限やタグ・カテゴリの条件を減らして再探索してください
+          {countConditions.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-2">
+              {/* 個数条件は1つごとに数え上げの状態が掛け算で増えるので、外せる条件を並べる */}
+              {countConditions.map((c) => (
+                <button
+                  key={c.label}
+                  className="rounded-lg bg-neutral-800 px-3 py-1.5 text-sm text-neutral-100 hover:bg-neutral-700 transition"
+                  onClick={() => setConfig(c.remove)}
+                >
+                  {c.label} を外す
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {outcome && outcome.kind === "unreachable" && (
         <div className="rounded-2xl border border-red-800 bg-red-950/30 p-4">
-          <div className="text-sm text-red-300">
-            ✗ 達成不可能（この店の価格は {outcome.gcd} 円単位でのみ組み合わせ可能）
-          </div>
+          {outcome.byCounts ? (
+            <div className="text-sm text-red-300">
+              ✗ 達成不可能（品数・タグ・カテゴリの下限が品数上限 {config.maxItems} 品では満たせません）
+            </div>
+          ) : config.mode === "range" ? (
+            <div className="text-sm text-red-300">
+              {(config.minBudget ?? config.budget) > config.budget
+                ? "✗ 達成不可能（下限が上限を上回っています）"
+                : `✗ 達成不可能（${yen(config.minBudget ?? config.budget)}〜${yen(config.budget)} に入る金額がありません。この店の価格は ${outcome.gcd} 円単位でのみ組み合わせ可能）`}
+            </div>
+          ) : (
+            <div className="text-sm text-red-300">
+              ✗ 達成不可能（この店の価格は {outcome.gcd} 円単位でのみ組み合わせ可能）
+            </div>
+          )}
           <div className="mt-3 flex flex-wrap gap-2">
             {outcome.nearestDown !== null && (
               <button
                 className="rounded-lg bg-neutral-800 px-3 py-1.5 text-sm hover:bg-neutral-700 transition tabular-nums"
-                onClick={() => setConfig((prev) => ({ ...prev, budget: outcome.nearestDown! }))}
+                onClick={() =>
+                  setConfig((prev) =>
+                    prev.mode === "range"
+                      ? { ...prev, minBudget: outcome.nearestDown! }
+                      : { ...prev, budget: outcome.nearestDown! }
+                  )
+                }
               >
-                {yen(outcome.nearestDown)} で再探索
+                {config.mode === "range" ? `下限を ${yen(outcome.nearestDown)} にして再探索` : `${yen(outcome.nearestDown)} で再探索`}
               </button>
             )}
             {outcome.nearestUp !== null && (
@@ -192,59 +463,108 @@ export default function BudgetSearchPanel({
                 className="rounded-lg bg-neutral-800 px-3 py-1.5 text-sm hover:bg-neutral-700 transition tabular-nums"
                 onClick={() => setConfig((prev) => ({ ...prev, budget: outcome.nearestUp! }))}
               >
-                {yen(outcome.nearestUp)} で再探索
+                {config.mode === "range" ? `上限を ${yen(outcome.nearestUp)} にして再探索` : `${yen(outcome.nearestUp)} で再探索`}
               </button>
             )}
           </div>
+          {outcome.relaxations && (
+            <Relaxations
+              relaxations={outcome.relaxations}
+              findItem={findItem}
+              setConfig={setConfig}
+              yen={yen}
+            />
+          )}
         </div>
       )}
 
       {outcome && outcome.kind === "ok" && (
         <div className="rounded-2xl border border-neutral-800 p-4">
-          <div className="mb-3 flex items-center justify-between">
-            <h2 className="text-lg font-semibold">
-              結果（{outcome.results.length}件{outcome.truncated ? "・先頭のみ表示" : ""}）
-            </h2>
-          </div>
-          {outcome.results.length === 0 ? (
-            <div className="text-center text-neutral-500 py-8">
-              条件に合う組み合わせが見つかりませんでした
-            </div>
-          ) : (
-            <div className="space-y-2 max-h-[32rem] overflow-y-auto pr-1">
-              {outcome.results.map((result, i) => (
-                <div key={i} className="rounded-xl border border-neutral-800 p-3">
-                  <div className="flex items-start justify-between gap-3">
-                    <div className="min-w-0 space-y-0.5">
-                      {result.lines.map((line, li) => {
-                        const rep = findItem(line.itemId);
-                        const alt = line.groupIds
-                          .map((id) => findItem(id)?.name)
-                          .filter(Boolean);
-                        return (
-                          <div key={li} className="text-sm text-neutral-200 truncate">
-                            {rep?.name ?? line.itemId} × {line.qty}
-                            {alt.length > 1 && (
-                              <span className="text-xs text-neutral-500">
-                                {" "}（{alt.join("／")} から）
-                              </span>
-                            )}
-                          </div>
-                        );
-                      })}
-                    </div>
-                    <div className="shrink-0 text-right">
-                      <div className="text-sm font-bold tabular-nums">{yen(result.total)}</div>
-                      <div className="text-xs text-neutral-500 tabular-nums">{result.count} 品</div>
-                    </div>
-                  </div>
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            {outcome.totalFound > outcome.results.length ? (
+              <>
+                <h2 className="text-lg font-semibold">
+                  結果（全 {outcome.totalFound.toLocaleString("ja-JP")} 通り）
+                </h2>
+                <div className="flex items-center gap-2 text-xs">
                   <button
-                    className="mt-2 w-full rounded-lg bg-[var(--accent-15)] border border-[var(--accent-50)] px-3 py-1.5 text-xs font-medium text-[var(--accent-light)] hover:bg-[var(--accent-20)] transition"
-                    onClick={() => onApply(result)}
+                    className="rounded-lg bg-neutral-800 px-2 py-1 hover:bg-neutral-700 transition disabled:opacity-40"
+                    disabled={outcome.offset === 0}
+                    onClick={() => onPage(Math.max(0, outcome.offset - pageSize))}
                   >
-                    この組み合わせを選択
+                    ← 前へ
+                  </button>
+                  <span className="text-neutral-400 tabular-nums">
+                    {(outcome.offset + 1).toLocaleString("ja-JP")}〜
+                    {(outcome.offset + outcome.results.length).toLocaleString("ja-JP")} 件目
+                  </span>
+                  <button
+                    className="rounded-lg bg-neutral-800 px-2 py-1 hover:bg-neutral-700 transition disabled:opacity-40"
+                    disabled={outcome.offset + pageSize >= outcome.totalFound}
+                    onClick={() => onPage(outcome.offset + pageSize)}
+                  >
+                    次へ →
                   </button>
                 </div>
+              </>
+            ) : (
+              <h2 className="text-lg font-semibold">
+                {ranked
+                  ? `上位 ${outcome.results.length} 件${outcome.truncated ? "（探索上限で打ち切り）" : ""}`
+                  : `結果（${outcome.results.length}件${outcome.truncated ? "・探索上限で打ち切り" : ""}）`}
+              </h2>
+            )}
+            {ranked && (
+              <div className="flex items-center gap-3 text-xs">
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={paretoOnly}
+                    onChange={(e) => setParetoOnly(e.target.checked)}
+                  />
+                  <span>パレート最適のみ</span>
+                </label>
+                <select
+                  className="rounded-lg bg-neutral-900 px-2 py-1 text-neutral-300"
+                  value={resultSort}
+                  onChange={(e) => setResultSort(e.target.value as typeof resultSort)}
+                >
+                  <option value="rank">目的順</option>
+                  <option value="total">金額の高い順</option>
+                  <option value="count">品数の多い順</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          {/* 金額と品数のトレードオフ（どちらを増やしても他方が減る組み合わせ） */}
+          {outcome.pareto && outcome.pareto.length > 1 && (
+            <div className="mb-4">
+              <div className="text-sm text-neutral-400 mb-1.5">金額と品数のバランス（パレート最適）</div>
+              <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+                {outcome.pareto.map((result, i) => (
+                  <ResultCard key={i} result={result} findItem={findItem} onApply={onApply} yen={yen} />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {displayedResults.length === 0 ? (
+            <div className="py-8">
+              <div className="text-center text-neutral-500">条件に合う組み合わせが見つかりませんでした</div>
+              {outcome.relaxations && (
+                <Relaxations
+                  relaxations={outcome.relaxations}
+                  findItem={findItem}
+                  setConfig={setConfig}
+                  yen={yen}
+                />
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto pr-1">
+              {displayedResults.map((result, i) => (
+                <ResultCard key={i} result={result} findItem={findItem} onApply={onApply} yen={yen} />
               ))}
             </div>
           )}
@@ -254,6 +574,181 @@ export default function BudgetSearchPanel({
   );
 }
 
+// ============================================================
+// 結果カード（1組み合わせ分）
+// ============================================================
+
+function ResultCard({
+  result,
+  findItem,
+  onApply,
+  yen,
+}: {
+  result: BudgetSearchResult;
+  findItem: (id: string) => Item | undefined;
+  onApply: (result: BudgetSearchResult) => void;
+  yen: (n: number) => string;
+}) {
+  return (
+    <div className="rounded-xl border border-neutral-800 p-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 space-y-0.5">
+          {result.lines.map((line, li) => {
+            const rep = findItem(line.itemId);
+            const alt = line.groupIds
+              .map((id) => findItem(id)?.name)
+              .filter(Boolean);
+            return (
+              <div
+                key={li}
+                className={`text-sm truncate ${line.locked ? "text-neutral-500" : "text-neutral-200"}`}
+              >
+                {line.locked && (
+                  <span className="mr-1 rounded bg-neutral-800 px-1 py-0.5 text-[10px]">カート</span>
+                )}
+                {!line.locked && result.lines.some((l) => l.locked) && "＋ "}
+                {rep?.name ?? line.itemId}
+                {line.addonIds?.map((aid) => (
+                  <span key={aid} className="text-[var(--accent-light)]">＋{findItem(aid)?.name ?? aid}</span>
+                ))}
+                {" "}× {line.qty}
+                {alt.length > 1 && (
+                  <span className="text-xs text-neutral-500">
+                    {" "}（{alt.join("／")} から）
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div className="shrink-0 text-right">
+          {(result.rank !== undefined || result.pareto) && (
+            <div className="mb-0.5 flex justify-end gap-1 text-[10px]">
+              {result.rank !== undefined && (
+                <span className="rounded bg-neutral-800 px-1.5 py-0.5 text-neutral-400">#{result.rank}</span>
+              )}
+              {result.pareto && (
+                <span className="rounded bg-[var(--accent-15)] px-1.5 py-0.5 text-[var(--accent-light)]">パレート</span>
+              )}
+            </div>
+          )}
+          <div className="text-sm font-bold tabular-nums">{yen(result.total)}</div>
+          <div className="text-xs text-neutral-500 tabular-nums">{result.count} 品</div>
+        </div>
+      </div>
+      <button
+        className="mt-2 w-full rounded-lg bg-[var(--accent-15)] border border-[var(--accent-50)] px-3 py-1.5 text-xs font-medium text-[var(--accent-light)] hover:bg-[var(--accent-20)] transition"
+        onClick={() => onApply(result)}
+      >
+        {result.lines.some((l) => l.locked) ? "カートに追加" : "この組み合わせを選択"}
+      </button>
+    </div>
+  );
+}
+
+// ============================================================
+// 見つからない原因と、1つだけ緩める提案
+// ============================================================
+
+function Relaxations({
+  relaxations,
+  findItem,
+  setConfig,
+  yen,
+}: {
+  relaxations: BudgetSearchRelaxation[];
+  findItem: (id: string) => Item | undefined;
+  setConfig: (v: BudgetSearchConfig | ((p: BudgetSearchConfig) => BudgetSearchConfig)) => void;
+  yen: (n: number) => string;
+}) {
+  const name = (id: string) => findItem(id)?.name ?? id;
+  const label = (r: BudgetSearchRelaxation) => {
+    switch (r.kind) {
+      case "budget":
+        return `予算を ${yen(r.budget)} にする（カート・必須品だけで予算超過）`;
+      case "drop-required":
+        return `「${name(r.itemId)}」を必須から外す`;
+      case "max-items":
+        return `品数上限を ${r.maxItems} 品にする`;
+      case "min-items":
+        return r.minItems === 0 ? "品数の下限をなくす" : `品数下限を ${r.minItems} 品にする`;
+      case "category-limit":
+        return `${r.category} の上限を ${r.limit} 品にする`;
+      case "category-min":
+        return r.min === 0 ? `${r.category} の下限をなくす` : `${r.category} の下限を ${r.min} 品にする`;
+      case "tag-limit":
+        return `タグ「${r.tag}」の上限を ${r.limit} 品にする`;
+      case "tag-min":
+        return r.min === 0 ? `タグ「${r.tag}」の下限をなくす` : `タグ「${r.tag}」の下限を ${r.min} 品にする`;
+      case "unexclude":
+        return `「${name(r.itemId)}」の除外をやめる`;
+      case "item-limit":
+        return `「${name(r.itemId)}」の上限を ${r.limit} 個にする`;
+      case "allow-duplicates":
+        return "同じ品を2個以上選べるようにする";
+    }
+  };
+
+  return (
+    <div className="mt-4 text-left">
+      <div className="text-sm text-neutral-400 mb-1.5">
+        {relaxations.length > 0
+          ? "次のどれか1つを緩めると見つかります"
+          : "条件を1つ緩めるだけでは見つかりません（予算や複数の条件を見直してください）"}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {relaxations.map((r, i) => (
+          <button
+            key={i}
+            className="rounded-lg bg-neutral-800 px-3 py-1.5 text-sm hover:bg-neutral-700 transition tabular-nums"
+            onClick={() => setConfig((prev) => ({ ...prev, ...r.patch }))}
+          >
+            {label(r)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// 個数条件の入力欄（空欄=制限なし）
+// ============================================================
+
+function CountInput({
+  value,
+  placeholder,
+  onChange,
+}: {
+  value: number | undefined;
+  placeholder: string;
+  onChange: (n: number | null) => void;
+}) {
+  return (
+    <input
+      type="number"
+      min={0}
+      placeholder={placeholder}
+      className="w-16 rounded-lg bg-neutral-900 px-2 py-1 text-right text-xs tabular-nums"
+      value={value ?? ""}
+      onChange={(e) => {
+        const raw = e.target.value;
+        onChange(raw === "" ? null : Math.max(0, Number(raw) || 0));
+      }}
+    />
+  );
+}
+
+function withCount(record: Record<string, number> | undefined, key: string, n: number | null) {
+  const next = { ...record };
+  if (n === null) {
+    delete next[key];
+  } else {
+    next[key] = n;
+  }
+  return next;
+}
+
 // ============================================================
 // 必須品／除外品ピッカー（カテゴリごとに折りたたみ）
 // ============================================================
@@ -265,6 +760,8 @@ function ItemPicker({
   selectedIds,
   yen,
   onToggle,
+  quantities,
+  onQuantity,
 }: {
   title: string;
   restaurant: Restaurant;
@@ -272,6 +769,8 @@ function ItemPicker({
   selectedIds: string[];
   yen: (n: number) => string;
   onToggle: (id: string) => void;
+  quantities?: Record<string, number>; // 指定時は選択中の品に個数入力を表示
+  onQuantity?: (id: string, n: number) => void;
 }) {
   return (
     <div>
@@ -296,16 +795,96 @@ function ItemPicker({
               </summary>
               <div className="pl-3 space-y-1 py-1">
                 {group.map((it) => (
-                  <label key={it.id} className="flex items-center gap-1.5 text-xs cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={selectedIds.includes(it.id)}
-                      onChange={() => onToggle(it.id)}
-                    />
-                    <span className="truncate">
+                  <div key={it.id} className="flex items-center gap-1.5 text-xs">
+                    <label className="flex min-w-0 flex-1 items-center gap-1.5 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(it.id)}
+                        onChange={() => onToggle(it.id)}
+                      />
+                      <span className="truncate">
+                        {it.name}（{yen(it.price)}）
+                      </span>
+                    </label>
+                    {quantities && onQuantity && selectedIds.includes(it.id) && (
+                      <>
+                        <span className="shrink-0 text-neutral-500">×</span>
+                        <input
+                          type="number"
+                          min={1}
+                          className="w-12 shrink-0 rounded bg-neutral-900 px-1 py-0.5 text-right tabular-nums"
+                          value={quantities[it.id] ?? 1}
+                          onChange={(e) => onQuantity(it.id, Math.max(1, Number(e.target.value) || 1))}
+                        />
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </details>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// 品ごとの上限個数ピッカー（空欄=無制限）
+// ============================================================
+
+function ItemLimitPicker({
+  restaurant,
+  items,
+  limits,
+  yen,
+  onChange,
+}: {
+  restaurant: Restaurant;
+  items: Item[];
+  limits: Record<string, number>;
+  yen: (n: number) => string;
+  onChange: (id: string, n: number | null) => void; // null = 上限解除
+}) {
+  const limitedCount = Object.keys(limits).length;
+  return (
+    <div>
+      <div className="text-sm text-neutral-400 mb-1.5">
+        品ごとの上限（空欄=無制限）
+        {limitedCount > 0 && (
+          <span className="ml-1.5 text-xs text-[var(--accent-light)]">（{limitedCount}件設定中）</span>
+        )}
+      </div>
+      <div className="max-h-48 overflow-y-auto space-y-1 rounded-lg border border-neutral-800 p-2">
+        {restaurant.categories.map((cat) => {
+          const group = items.filter((it) => it.category === cat);
+          if (group.length === 0) return null;
+          const limitedInCat = group.filter((it) => limits[it.id] !== undefined).length;
+          return (
+            <details key={cat} open={limitedInCat > 0}>
+              <summary className="cursor-pointer text-xs text-neutral-300 py-0.5 select-none">
+                {cat}
+                {limitedInCat > 0 && (
+                  <span className="ml-1 text-[var(--accent-light)]">（{limitedInCat}）</span>
+                )}
+              </summary>
+              <div className="pl-3 space-y-1 py-1">
+                {group.map((it) => (
+                  <div key={it.id} className="flex items-center gap-1.5 text-xs">
+                    <span className="flex-1 truncate">
                       {it.name}（{yen(it.price)}）
                     </span>
-                  </label>
+                    <input
+                      type="number"
+                      min={0}
+                      className="w-12 shrink-0 rounded bg-neutral-900 px-1 py-0.5 text-right tabular-nums"
+                      value={limits[it.id] ?? ""}
+                      onChange={(e) => {
+                        const raw = e.target.value;
+                        onChange(it.id, raw === "" ? null : Math.max(0, Number(raw) || 0));
+                      }}
+                    />
+                  </div>
                 ))}
               </div>
             </details>
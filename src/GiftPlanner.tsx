@@ -0,0 +1,131 @@
+import { useState } from "react";
+import type { Item, GiftPlan } from "./types";
+import { checkExpiry, parseExpiry } from "./expiry";
+import { addDays, dateString, daysBetween, formatDay, isOnSaleOn } from "./period";
+
+// ============================================================
+// 手土産の日持ちチェック（買う日と渡す日から、期限が間に合うかと買うべき日を出す）
+// ============================================================
+
+export default function GiftPlanner({
+  cart,
+  plan,
+  setPlan,
+}: {
+  cart: Item[]; // カートに入っている品
+  plan: GiftPlan | null;
+  setPlan: (v: GiftPlan | null) => void;
+}) {
+  const [open, setOpen] = useState(plan !== null);
+
+  const today = dateString(new Date());
+  const current = plan ?? { purchaseDate: today, handoutDate: addDays(today, 1) };
+  const reversed = daysBetween(current.purchaseDate, current.handoutDate) < 0;
+  const check = checkExpiry(cart, current.purchaseDate, current.handoutDate);
+  const withExpiry = cart.filter((it) => it.expiry && parseExpiry(it.expiry));
+  const offSeason = cart.filter((it) => !isOnSaleOn(it, current.purchaseDate));
+  const update = (patch: Partial<GiftPlan>) => setPlan({ ...current, ...patch });
+
+  return (
+    <section className="mt-4 rounded-2xl border border-neutral-800 p-4">
+      <button className="flex w-full items-center justify-between" onClick={() => setOpen((v) => !v)}>
+        <h2 className="text-lg font-semibold">
+          日持ちチェック
+          {plan && check.expiring.length > 0 && (
+            <span className="ml-2 text-xs font-normal text-amber-400">⚠ {check.expiring.length}品が渡す日までもちません</span>
+          )}
+        </h2>
+        <span className="text-xs text-neutral-500">{open ? "▲ 閉じる" : "▼ 開く"}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1.5">
+              <span className="text-neutral-400">買う日</span>
+              <input
+                type="date"
+                className="rounded-lg bg-neutral-900 px-2 py-1"
+                value={current.purchaseDate}
+                onChange={(e) => e.target.value && update({ purchaseDate: e.target.value })}
+              />
+            </label>
+            <label className="flex items-center gap-1.5">
+              <span className="text-neutral-400">渡す日</span>
+              <input
+                type="date"
+                className="rounded-lg bg-neutral-900 px-2 py-1"
+                value={current.handoutDate}
+                onChange={(e) => e.target.value && update({ handoutDate: e.target.value })}
+              />
+            </label>
+            {plan && (
+              <button
+                className="text-xs text-neutral-500 hover:text-neutral-300 transition"
+                onClick={() => setPlan(null)}
+              >
+                リセット
+              </button>
+            )}
+          </div>
+
+          {reversed ? (
+            <div className="text-xs text-red-400">渡す日が買う日より前になっています</div>
+          ) : withExpiry.length === 0 ? (
+            <div className="text-xs text-neutral-500">カートに期限の書かれた品がありません</div>
+          ) : (
+            <>
+              {/* 買う日の目安 */}
+              {check.earliestPurchase && (
+                <div className="rounded-lg bg-neutral-900 px-3 py-2 text-xs text-neutral-300">
+                  全品を期限内に渡すには {formatDay(check.earliestPurchase)}〜{formatDay(check.latestPurchase)} に購入
+                  {check.expiring.length > 0 && (
+                    <button
+                      className="ml-2 rounded bg-[var(--accent)] px-2 py-0.5 text-white hover:opacity-90 transition"
+                      onClick={() => update({ purchaseDate: check.earliestPurchase! })}
+                    >
+                      買う日を {formatDay(check.earliestPurchase)} にする
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* 品ごとの期限 */}
+              <div className="space-y-1">
+                {withExpiry.map((it) => {
+                  const bad = check.expiring.find((x) => x.item.id === it.id);
+                  const expiry = parseExpiry(it.expiry!)!;
+                  const expiresOn = addDays(current.purchaseDate, expiry.days);
+                  return (
+                    <div key={it.id} className="flex items-center gap-2 text-xs">
+                      <span className={bad ? "text-amber-400" : "text-emerald-400"}>{bad ? "⚠" : "✓"}</span>
+                      <span className="flex-1 text-neutral-200">{it.name}</span>
+                      <span className="text-neutral-500">{it.expiry}</span>
+                      <span className={`w-28 text-right ${bad ? "text-amber-400" : "text-neutral-400"}`}>
+                        {expiry.kind.slice(0, 2)} {formatDay(expiresOn)}まで
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+              {check.expiring.length > 0 && (
+                <div className="text-xs text-amber-300">
+                  {formatDay(current.purchaseDate)} に買うと{" "}
+                  {check.expiring.map((x) => x.item.name).join("、")} が{formatDay(current.handoutDate)}までに期限切れになります
+                  {check.expiring.some((x) => x.expiry.kind === "消費期限") && "（消費期限の品は期限後に食べられません）"}
+                </div>
+              )}
+            </>
+          )}
+
+          {offSeason.length > 0 && (
+            <div className="text-xs text-amber-300">
+              ⚠ {formatDay(current.purchaseDate)} は販売期間外：
+              {offSeason.map((it) => `${it.name}（${it.period}）`).join("、")}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,394 @@
+import { useState, useEffect, useRef } from "react";
+import type {
+  Item,
+  BillSplit,
+  BudgetSearchConfig,
+  BudgetSearchOutcome,
+  GroupMember,
+  GroupSearchConfig,
+  GroupSearchResult,
+} from "./types";
+import { groupToCart, newMember, overBudgetMembers } from "./groupSearch";
+import { startGroupSearch } from "./budgetSearchClient";
+
+// ============================================================
+// グループ探索パネル（人数分の予算と条件から、1人ずつ組み合わせを探す）
+// ============================================================
+
+// カテゴリごとにまとめた品の選択欄（選ぶとすぐ onPick して空に戻る）
+function ItemSelect({
+  items,
+  categories,
+  placeholder,
+  onPick,
+}: {
+  items: Item[];
+  categories: string[];
+  placeholder: string;
+  onPick: (id: string) => void;
+}) {
+  return (
+    <select
+      className="rounded-lg bg-neutral-900 px-2 py-1 text-xs"
+      value=""
+      onChange={(e) => e.target.value && onPick(e.target.value)}
+    >
+      <option value="">{placeholder}</option>
+      {categories.map((cat) => (
+        <optgroup key={cat} label={cat}>
+          {items
+            .filter((it) => it.category === cat)
+            .map((it) => (
+              <option key={it.id} value={it.id}>{it.name}</option>
+            ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
+
+// 候補が出なかった理由（メンバーの条件は品数・必須・除外・重複なしだけなので、その範囲で言い換える）
+function missReason(
+  outcome: BudgetSearchOutcome,
+  sharedCost: number,
+  nameOf: (id: string) => string,
+  yen: (n: number) => string
+): string {
+  if (outcome.kind === "error") return `探索に失敗しました（${outcome.message}）`;
+  const relaxations = outcome.relaxations ?? [];
+  const hints = relaxations.flatMap((r) => {
+    switch (r.kind) {
+      case "budget":
+        return [`予算を ${yen(Math.ceil(r.budget + sharedCost))} にする`];
+      case "max-items":
+        return [`品数を ${r.maxItems} 品までにする`];
+      case "drop-required":
+        return [`「${nameOf(r.itemId)}」を食べたい品から外す`];
+      case "unexclude":
+        return [`「${nameOf(r.itemId)}」を食べない品から外す`];
+      case "allow-duplicates":
+        return ["同じ品を2個以上選べるようにする"];
+      default:
+        return [];
+    }
+  });
+  const head =
+    outcome.kind === "unreachable" && outcome.byCounts
+      ? "品数の条件を満たせません"
+      : "条件に合う組み合わせが見つかりませんでした";
+  return hints.length > 0 ? `${head}。次のどれかで見つかります：${hints.join("／")}` : head;
+}
+
+export default function GroupSearchPanel({
+  items,
+  categories,
+  base,
+  group,
+  setGroup,
+  split,
+  onApply,
+  yen,
+}: {
+  items: Item[];
+  categories: string[];
+  base: BudgetSearchConfig; // ひとり分の探索条件（販売日・注文日時を引き継ぐ）
+  group: GroupSearchConfig;
+  setGroup: (v: GroupSearchConfig | ((p: GroupSearchConfig) => GroupSearchConfig)) => void;
+  split: BillSplit; // 現在の割り勘設定（端数の丸め方を引き継ぐ）
+  onApply: (qty: Record<string, number>, split: BillSplit) => void;
+  yen: (n: number) => string;
+}) {
+  const [result, setResult] = useState<GroupSearchResult | null>(null);
+  const [pickIndex, setPickIndex] = useState<number[]>([]); // 人ごとに何番目の候補を選んでいるか
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const searchRef = useRef<{ cancel: () => void } | null>(null); // 実行中の探索
+
+  // アンマウント時は実行中の探索（ワーカー）を破棄する
+  useEffect(() => () => searchRef.current?.cancel(), []);
+
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const nameOf = (id: string) => byId.get(id)?.name ?? id;
+
+  const updateMember = (id: string, patch: Partial<GroupMember>) =>
+    setGroup((p) => ({ ...p, members: p.members.map((m) => (m.diner.id === id ? { ...m, ...patch } : m)) }));
+  const addMember = () =>
+    setGroup((p) => ({
+      ...p,
+      members: [...p.members, newMember(`${p.members.length + 1}人目`, p.members[p.members.length - 1]?.budget ?? 1000)],
+    }));
+  const removeMember = (id: string) =>
+    setGroup((p) => ({ ...p, members: p.members.filter((m) => m.diner.id !== id) }));
+  const setShared = (id: string, n: number) =>
+    setGroup((p) => {
+      const shared = { ...p.shared };
+      if (n > 0) shared[id] = n;
+      else delete shared[id];
+      return { ...p, shared };
+    });
+
+  // 分ける品の負担額だけで予算を超える人がいれば探さない
+  const overBudget = overBudgetMembers(items, group);
+
+  const run = () => {
+    searchRef.current?.cancel();
+    setError(null);
+    setRunning(true);
+    searchRef.current = startGroupSearch(items, group, base, {
+      onDone: (r) => {
+        searchRef.current = null;
+        setRunning(false);
+        setResult(r);
+        setPickIndex(group.members.map(() => 0));
+      },
+      onError: (message) => {
+        searchRef.current = null;
+        setRunning(false);
+        setError(message);
+      },
+    });
+  };
+
+  // 探索後にメンバーを増減した場合は結果と対応が取れないので出さない
+  const current =
+    result &&
+    result.members.length === group.members.length &&
+    result.members.every((r, i) => r.dinerId === group.members[i].diner.id)
+      ? result
+      : null;
+  const picks = current
+    ? current.members.map((r, i) => (r.outcome.kind === "ok" ? r.outcome.results[pickIndex[i] ?? 0] ?? null : null))
+    : [];
+  const groupTotal = current ? current.sharedTotal + picks.reduce((s, p) => s + (p?.total ?? 0), 0) : 0;
+
+  return (
+    <div className="mt-4 space-y-4">
+      {/* みんなで分ける品 */}
+      <div className="rounded-2xl border border-neutral-800 p-4 text-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold">みんなで分ける品</h2>
+          <ItemSelect items={items} categories={categories} placeholder="＋ 品を追加" onPick={(id) => setShared(id, (group.shared[id] ?? 0) + 1)} />
+        </div>
+        {Object.keys(group.shared).length === 0 ? (
+          <p className="mt-2 text-xs text-neutral-500">なし（代金は全員で均等に負担し、その分を各自の予算から引いて探します）</p>
+        ) : (
+          <div className="mt-2 space-y-1">
+            {Object.entries(group.shared).map(([id, n]) => (
+              <div key={id} className="flex items-center gap-2">
+                <span className="flex-1 text-neutral-200">{nameOf(id)}</span>
+                <input
+                  type="number"
+                  min={0}
+                  className="w-14 rounded bg-neutral-900 px-2 py-0.5 text-right text-xs"
+                  value={n}
+                  onChange={(e) => setShared(id, Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                />
+                <span className="w-16 text-right text-xs tabular-nums">{yen((byId.get(id)?.price ?? 0) * n)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* メンバーごとの予算と条件 */}
+      <div className="space-y-2">
+        {group.members.map((m) => (
+          <div key={m.diner.id} className="rounded-2xl border border-neutral-800 p-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                className="w-24 rounded-lg bg-neutral-900 px-2 py-1"
+                value={m.diner.name}
+                onChange={(e) => updateMember(m.diner.id, { diner: { ...m.diner, name: e.target.value } })}
+              />
+              <label className="flex items-center gap-1">
+                <span className="text-neutral-400">予算</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={10}
+                  className="w-20 rounded-lg bg-neutral-900 px-2 py-1 text-right"
+                  value={m.budget}
+                  onChange={(e) => updateMember(m.diner.id, { budget: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                />
+                <span className="text-neutral-400">円</span>
+              </label>
+              <label className="flex items-center gap-1">
+                <span className="text-neutral-400">品数</span>
+                <select
+                  className="rounded-lg bg-neutral-900 px-2 py-1"
+                  value={m.maxItems}
+                  onChange={(e) => updateMember(m.diner.id, { maxItems: Number(e.target.value) })}
+                >
+                  {[1, 2, 3, 4, 5, 6, 7, 8].map((n) => (
+                    <option key={n} value={n}>{n}品まで</option>
+                  ))}
+                </select>
+              </label>
+              <select
+                className="rounded-lg bg-neutral-900 px-2 py-1"
+                value={m.mode}
+                onChange={(e) => updateMember(m.diner.id, { mode: e.target.value as GroupMember["mode"] })}
+              >
+                <option value="maximize-price">予算を使い切る</option>
+                <option value="maximize-count">品数を多く</option>
+              </select>
+              <label className="flex items-center gap-1 text-xs text-neutral-400">
+                <input
+                  type="checkbox"
+                  checked={m.noDuplicates ?? false}
+                  onChange={(e) => updateMember(m.diner.id, { noDuplicates: e.target.checked })}
+                />
+                同じ品は1個まで
+              </label>
+              {group.members.length > 1 && (
+                <button
+                  className="ml-auto text-xs text-neutral-500 hover:text-red-400 transition"
+                  onClick={() => removeMember(m.diner.id)}
+                >
+                  削除
+                </button>
+              )}
+            </div>
+            <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+              {m.requiredIds.map((id) => (
+                <button
+                  key={id}
+                  className="rounded bg-[var(--accent-20)] px-1.5 py-0.5 text-[var(--accent-light)]"
+                  onClick={() => updateMember(m.diner.id, { requiredIds: m.requiredIds.filter((x) => x !== id) })}
+                >
+                  ♥ {nameOf(id)} ✕
+                </button>
+              ))}
+              {m.excludedIds.map((id) => (
+                <button
+                  key={id}
+                  className="rounded bg-neutral-800 px-1.5 py-0.5 text-neutral-400 line-through"
+                  onClick={() => updateMember(m.diner.id, { excludedIds: m.excludedIds.filter((x) => x !== id) })}
+                >
+                  {nameOf(id)} ✕
+                </button>
+              ))}
+              <ItemSelect
+                items={items}
+                categories={categories}
+                placeholder="食べたい品"
+                onPick={(id) =>
+                  updateMember(m.diner.id, {
+                    requiredIds: [...new Set([...m.requiredIds, id])],
+                    excludedIds: m.excludedIds.filter((x) => x !== id),
+                  })
+                }
+              />
+              <ItemSelect
+                items={items}
+                categories={categories}
+                placeholder="食べない品"
+                onPick={(id) =>
+                  updateMember(m.diner.id, {
+                    excludedIds: [...new Set([...m.excludedIds, id])],
+                    requiredIds: m.requiredIds.filter((x) => x !== id),
+                  })
+                }
+              />
+            </div>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <button
+            className="rounded-lg bg-neutral-800 px-3 py-1.5 text-sm hover:bg-neutral-700 transition"
+            onClick={addMember}
+          >
+            ＋ 人を追加
+          </button>
+          <button
+            className="rounded-lg bg-[var(--accent)] px-4 py-1.5 text-sm font-medium text-white hover:opacity-90 transition disabled:opacity-40"
+            disabled={group.members.length === 0 || overBudget.length > 0 || running}
+            onClick={run}
+          >
+            {running ? "探索中…" : `${group.members.length}人分を探す`}
+          </button>
+        </div>
+        {overBudget.length > 0 && (
+          <p className="text-xs text-red-400">
+            分ける品の負担額が {overBudget.map((m) => m.diner.name).join("・")} の予算を超えています。予算を上げるか分ける品を減らしてください
+          </p>
+        )}
+        {error && <p className="text-xs text-red-400">✗ 探索に失敗しました（{error}）</p>}
+      </div>
+
+      {/* 結果 */}
+      {current && (
+        <div className="rounded-2xl border border-neutral-800 p-4 text-sm">
+          <div className="space-y-3">
+            {current.members.map((r, i) => {
+              const m = group.members[i];
+              const pick = picks[i];
+              const candidates = r.outcome.kind === "ok" ? r.outcome.results.length : 0;
+              const personal = (pick?.total ?? 0) + r.sharedCost;
+              return (
+                <div key={r.dinerId} className="border-b border-neutral-800 pb-2 last:border-none">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="font-semibold">{m.diner.name}</span>
+                    {candidates > 1 && (
+                      <span className="flex items-center gap-1 text-xs text-neutral-400">
+                        <button
+                          className="rounded bg-neutral-800 px-1.5 hover:bg-neutral-700 disabled:opacity-40"
+                          disabled={(pickIndex[i] ?? 0) === 0}
+                          onClick={() => setPickIndex((p) => p.map((x, j) => (j === i ? x - 1 : x)))}
+                        >
+                          ‹
+                        </button>
+                        候補 {(pickIndex[i] ?? 0) + 1}/{candidates}
+                        <button
+                          className="rounded bg-neutral-800 px-1.5 hover:bg-neutral-700 disabled:opacity-40"
+                          disabled={(pickIndex[i] ?? 0) >= candidates - 1}
+                          onClick={() => setPickIndex((p) => p.map((x, j) => (j === i ? x + 1 : x)))}
+                        >
+                          ›
+                        </button>
+                      </span>
+                    )}
+                    <span className={personal > m.budget ? "text-red-400" : ""}>
+                      {yen(Math.round(personal))}
+                      <span className="ml-1 text-xs text-neutral-500">/ 予算 {yen(m.budget)}</span>
+                    </span>
+                  </div>
+                  {pick ? (
+                    <div className="mt-1 text-xs text-neutral-300">
+                      {pick.lines.map((l) => `${nameOf(l.itemId)}${l.qty > 1 ? `×${l.qty}` : ""}`).join("、")}
+                      {r.sharedCost > 0 && (
+                        <span className="ml-1 text-neutral-500">＋分ける品 {yen(Math.round(r.sharedCost))}</span>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="mt-1 text-xs text-amber-400">{missReason(r.outcome, r.sharedCost, nameOf, yen)}</div>
+                  )}
+                  {r.outcome.kind === "ok" && r.outcome.truncated && (
+                    <div className="mt-0.5 text-xs text-neutral-500">※ 探索を途中で打ち切ったため、最善の組み合わせとは限りません</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="mt-3 flex items-center justify-between border-t border-neutral-800 pt-2">
+            <span>
+              グループ合計 <span className="text-lg font-bold">{yen(groupTotal)}</span>
+              {current.sharedTotal > 0 && (
+                <span className="ml-2 text-xs text-neutral-500">（うち分ける品 {yen(current.sharedTotal)}）</span>
+              )}
+            </span>
+            <button
+              className="rounded-lg bg-[var(--accent)] px-3 py-1.5 text-xs text-white hover:opacity-90 transition"
+              onClick={() => {
+                const cart = groupToCart(group, current, picks, split);
+                onApply(cart.qty, cart.split);
+              }}
+            >
+              カートに反映
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
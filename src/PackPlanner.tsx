@@ -0,0 +1,98 @@
+import { useState } from "react";
+import type { PackFamily } from "./packs";
+import { planPacks, MAX_PACK_NEED } from "./packs";
+
+// ============================================================
+// 箱の組み合わせ計算（「仁王餅を15個、バターどら焼きを8個」→ 最安の箱の組み合わせ）
+// ============================================================
+
+export default function PackPlanner({
+  families,
+  onApply,
+  yen,
+}: {
+  families: PackFamily[];
+  onApply: (qtyPatch: Record<string, number>) => void; // 対象商品の全ての箱の数量（使わない箱は0）
+  yen: (n: number) => string;
+}) {
+  const [open, setOpen] = useState(false);
+  const [need, setNeed] = useState<Record<string, number>>({});
+
+  const plans = families
+    .map((f) => ({ f, plan: planPacks(f.packs, need[f.family] ?? 0) }))
+    .filter((x) => x.plan !== null);
+  const total = plans.reduce((s, x) => s + x.plan!.total, 0);
+
+  const apply = () => {
+    const patch: Record<string, number> = {};
+    for (const { f, plan } of plans) {
+      f.packs.forEach((p) => (patch[p.id] = 0));
+      plan!.lines.forEach((l) => (patch[l.itemId] = l.qty));
+    }
+    onApply(patch);
+  };
+
+  return (
+    <section className="mt-4 rounded-2xl border border-neutral-800 p-4">
+      <button className="flex w-full items-center justify-between" onClick={() => setOpen((v) => !v)}>
+        <h2 className="text-lg font-semibold">個数から箱を選ぶ</h2>
+        <span className="text-xs text-neutral-500">{open ? "▲ 閉じる" : "▼ 開く"}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          {families.map((f) => {
+            const n = need[f.family] ?? 0;
+            const plan = plans.find((x) => x.f.family === f.family)?.plan ?? null;
+            return (
+              <div key={f.family} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="w-32 shrink-0 text-neutral-300">{f.family}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_PACK_NEED}
+                  className="w-16 rounded-lg bg-neutral-900 px-2 py-1 text-right"
+                  value={n || ""}
+                  placeholder="0"
+                  onChange={(e) =>
+                    setNeed((prev) => ({
+                      ...prev,
+                      [f.family]: Math.max(0, Math.min(MAX_PACK_NEED, Math.floor(Number(e.target.value) || 0))),
+                    }))
+                  }
+                />
+                <span className="text-neutral-400">{f.unit}</span>
+                {plan && (
+                  <span className="text-xs text-neutral-400">
+                    →{" "}
+                    {plan.lines
+                      .map((l) => {
+                        const p = f.packs.find((x) => x.id === l.itemId)!;
+                        return `${p.pack!.pieces}${f.unit}入×${l.qty}`;
+                      })
+                      .join(" + ")}
+                    {" = "}
+                    <span className="font-semibold text-neutral-200">{yen(plan.total)}</span>
+                    （1{f.unit}あたり {yen(Math.round(plan.total / plan.pieces))}）
+                    {plan.pieces > n && <span className="text-amber-400"> ※{plan.pieces - n}{f.unit}多くなります</span>}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex items-center justify-end gap-3 border-t border-neutral-800 pt-2">
+            {plans.length > 0 && <span className="text-sm font-semibold">合計 {yen(total)}</span>}
+            <button
+              className="rounded-lg bg-[var(--accent)] px-3 py-1.5 text-xs text-white hover:opacity-90 transition disabled:opacity-40"
+              disabled={plans.length === 0}
+              onClick={apply}
+            >
+              カートに反映
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState, useRef, useEffect } from "react";
+import type { Restaurant, BudgetSearchResult } from "./types";
+import type { CompareConditions, CompareRow } from "./compare";
+import { isComparable, isCompareConditions } from "./compare";
+import { startCompareSearch } from "./budgetSearchClient";
+import { usePersistentState } from "./usePersistentState";
+
+// ============================================================
+// 予算で店を比較（同じ予算・条件で各店のいちばん良い組み合わせを横に並べる）
+// ============================================================
+
+const yen = (n: number) =>
+  n.toLocaleString("ja-JP", { style: "currency", currency: "JPY", maximumFractionDigits: 0 });
+
+// カテゴリ条件の選択肢（"min" = 1品以上、"none" = 使わない、数字 = その品数まで）
+const CATEGORY_RULES = [
+  { value: "", label: "指定なし" },
+  { value: "min", label: "1品以上" },
+  { value: "none", label: "使わない" },
+  { value: "1", label: "1品まで" },
+  { value: "2", label: "2品まで" },
+  { value: "3", label: "3品まで" },
+];
+
+const categoryRule = (cond: CompareConditions, cat: string) =>
+  cond.excludedCategories?.includes(cat)
+    ? "none"
+    : cond.categoryMins?.[cat]
+      ? "min"
+      : cond.categoryLimits?.[cat] !== undefined
+        ? String(cond.categoryLimits[cat])
+        : "";
+
+const withCategoryRule = (cond: CompareConditions, cat: string, rule: string): CompareConditions => {
+  const { [cat]: _min, ...categoryMins } = cond.categoryMins ?? {};
+  const { [cat]: _limit, ...categoryLimits } = cond.categoryLimits ?? {};
+  const excludedCategories = (cond.excludedCategories ?? []).filter((c) => c !== cat);
+  if (rule === "min") categoryMins[cat] = 1;
+  else if (rule === "none") excludedCategories.push(cat);
+  else if (rule) categoryLimits[cat] = Number(rule);
+  return { ...cond, categoryMins, categoryLimits, excludedCategories };
+};
+
+export default function RestaurantComparison({
+  restaurants,
+  onSelect,
+  onBack,
+}: {
+  restaurants: Restaurant[];
+  onSelect: (r: Restaurant) => void; // その店のシミュレーターを開く
+  onBack: () => void;
+}) {
+  const [cond, setCond] = usePersistentState<CompareConditions>(
+    "gaisyoku-sim-v3:compare",
+    { budget: 1000, maxItems: 4 },
+    isCompareConditions
+  );
+  const [rows, setRows] = useState<CompareRow[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const searchRef = useRef<{ cancel: () => void } | null>(null); // 実行中の比較
+
+  // アンマウント時は実行中の比較（ワーカー）を破棄する
+  useEffect(() => () => searchRef.current?.cancel(), []);
+
+  // 条件に出すカテゴリ・タグは比較対象の全店から集める（出現順）
+  const comparable = restaurants.filter(isComparable);
+  const categories = [...new Set(comparable.flatMap((r) => r.categories))];
+  const tags = [...new Set(comparable.flatMap((r) => r.items.flatMap((it) => it.tags ?? [])))];
+  const byId = new Map(restaurants.map((r) => [r.id, r]));
+
+  const run = () => {
+    searchRef.current?.cancel();
+    setError(null);
+    setRunning(true);
+    searchRef.current = startCompareSearch(comparable, cond, {
+      onDone: (r) => {
+        searchRef.current = null;
+        setRunning(false);
+        setRows(r);
+      },
+      onError: (message) => {
+        searchRef.current = null;
+        setRunning(false);
+        setError(message);
+      },
+    });
+  };
+  const cancel = () => {
+    searchRef.current?.cancel();
+    searchRef.current = null;
+    setRunning(false);
+  };
+
+  const describe = (r: Restaurant, result: BudgetSearchResult | null) =>
+    result
+      ? result.lines
+          .map((l) => `${r.items.find((it) => it.id === l.itemId)?.name ?? l.itemId}${l.qty > 1 ? `×${l.qty}` : ""}`)
+          .join("、")
+      : "予算内の組み合わせなし";
+  const best = (pick: (row: CompareRow) => number) => (rows ? Math.max(...rows.map(pick)) : 0);
+  const bestCount = best((row) => row.maxCount?.count ?? 0);
+  const bestExact = best((row) => row.exactCount ?? 0);
+  // 比較後に店一覧から消えた店は出さない
+  const table =
+    rows?.flatMap((row) => {
+      const restaurant = byId.get(row.restaurantId);
+      return restaurant ? [{ ...row, restaurant }] : [];
+    }) ?? null;
+
+  return (
+    <div className="min-h-screen w-full bg-neutral-950 text-neutral-100">
+      <div className="mx-auto max-w-5xl px-4 py-6">
+        <header className="flex items-center gap-4">
+          <button
+            className="rounded-lg bg-neutral-800 px-3 py-1.5 text-sm hover:bg-neutral-700 transition"
+            onClick={onBack}
+          >
+            ← 店舗選択
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold">予算で店を比較</h1>
+            <p className="text-sm text-neutral-400">同じ予算・条件で、各店のいちばん良い組み合わせを並べます</p>
+          </div>
+        </header>
+
+        <section className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-2 rounded-2xl border border-neutral-800 p-4 text-sm">
+          <label className="flex items-center gap-1.5">
+            <span className="text-neutral-400">予算</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              className="w-24 rounded-lg bg-neutral-900 px-2 py-1 text-right"
+              value={cond.budget.toLocaleString("ja-JP")}
+              onChange={(e) => {
+                const n = Number(e.target.value.replace(/,/g, ""));
+                if (Number.isFinite(n) && n >= 0) setCond((p) => ({ ...p, budget: n }));
+              }}
+            />
+            <span className="text-neutral-400">円</span>
+          </label>
+          <label className="flex items-center gap-1.5">
+            <span className="text-neutral-400">品数上限</span>
+            <select
+              className="rounded-lg bg-neutral-900 px-2 py-1"
+              value={cond.maxItems}
+              onChange={(e) => setCond((p) => ({ ...p, maxItems: Number(e.target.value) }))}
+            >
+              {[1, 2, 3, 4, 5, 6, 7, 8].map((n) => (
+                <option key={n} value={n}>{n}品</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1.5 text-neutral-300">
+            <input
+              type="checkbox"
+              checked={cond.noDuplicates ?? false}
+              onChange={(e) => setCond((p) => ({ ...p, noDuplicates: e.target.checked }))}
+            />
+            同じ品は1個まで
+          </label>
+          <label className="flex items-center gap-1.5">
+            <span className="text-neutral-400">販売日</span>
+            <input
+              type="date"
+              className="rounded-lg bg-neutral-900 px-2 py-1"
+              value={cond.saleDate ?? ""}
+              onChange={(e) => setCond((p) => ({ ...p, saleDate: e.target.value || undefined }))}
+            />
+          </label>
+          {running ? (
+            <button
+              className="ml-auto rounded-lg bg-neutral-800 px-4 py-1.5 font-medium hover:bg-neutral-700 transition"
+              onClick={cancel}
+            >
+              計算中…（中止）
+            </button>
+          ) : (
+            <button
+              className="ml-auto rounded-lg bg-[var(--accent,#059669)] px-4 py-1.5 font-medium text-white hover:opacity-90 transition"
+              onClick={run}
+            >
+              比較する
+            </button>
+          )}
+
+          {/* カテゴリ・タグの条件（その名前を持つ店にだけ効く） */}
+          <details className="w-full">
+            <summary className="cursor-pointer text-xs text-neutral-400">カテゴリ・タグの条件</summary>
+            <div className="mt-2 flex flex-wrap gap-x-4 gap-y-2">
+              {categories.map((cat) => (
+                <label key={cat} className="flex items-center gap-1.5">
+                  <span className="text-neutral-400">{cat}</span>
+                  <select
+                    className="rounded-lg bg-neutral-900 px-2 py-1 text-xs"
+                    value={categoryRule(cond, cat)}
+                    onChange={(e) => setCond((p) => withCategoryRule(p, cat, e.target.value))}
+                  >
+                    {CATEGORY_RULES.map((rule) => (
+                      <option key={rule.value} value={rule.value}>{rule.label}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            {tags.length > 0 && (
+              <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-2">
+                <span className="text-xs text-neutral-500">1品以上含めるタグ</span>
+                {tags.map((tag) => (
+                  <label key={tag} className="flex items-center gap-1.5 text-neutral-300">
+                    <input
+                      type="checkbox"
+                      checked={(cond.tagMins?.[tag] ?? 0) > 0}
+                      onChange={(e) =>
+                        setCond((p) => {
+                          const { [tag]: _, ...tagMins } = p.tagMins ?? {};
+                          return { ...p, tagMins: e.target.checked ? { ...tagMins, [tag]: 1 } : tagMins };
+                        })
+                      }
+                    />
+                    {tag}
+                  </label>
+                ))}
+              </div>
+            )}
+          </details>
+        </section>
+
+        {error && <p className="mt-2 text-xs text-red-400">✗ 比較に失敗しました（{error}）</p>}
+
+        {table && (
+          <section className="mt-4 overflow-x-auto rounded-2xl border border-neutral-800">
+            <table className="w-full min-w-[720px] text-sm">
+              <thead>
+                <tr className="border-b border-neutral-800 text-left text-xs text-neutral-500">
+                  <th className="p-3 font-normal">店</th>
+                  <th className="p-3 font-normal">最多品数</th>
+                  <th className="p-3 font-normal">最高額</th>
+                  <th className="p-3 text-right font-normal">ちょうど{yen(cond.budget)}</th>
+                  <th className="p-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {table.map((row) => (
+                  <tr key={row.restaurant.id} className="border-b border-neutral-800 align-top last:border-none">
+                    <td className="p-3 font-semibold">{row.restaurant.name}</td>
+                    <td className="p-3">
+                      {row.maxCount && (
+                        <div className={row.maxCount.count === bestCount ? "text-emerald-400" : ""}>
+                          {row.maxCount.count}品 / {yen(row.maxCount.total)}
+                        </div>
+                      )}
+                      <div className="text-xs text-neutral-400">{describe(row.restaurant, row.maxCount)}</div>
+                    </td>
+                    <td className="p-3">
+                      {row.maxSpend && (
+                        <div>
+                          {yen(row.maxSpend.total)}
+                          {row.maxSpend.total < cond.budget && (
+                            <span className="ml-1 text-xs text-neutral-500">（{yen(cond.budget - row.maxSpend.total)}余り）</span>
+                          )}
+                        </div>
+                      )}
+                      <div className="text-xs text-neutral-400">{describe(row.restaurant, row.maxSpend)}</div>
+                    </td>
+                    <td className={`p-3 text-right tabular-nums ${row.exactCount && row.exactCount === bestExact ? "text-emerald-400" : ""}`}>
+                      {row.exactCount === null ? (
+                        <span className="text-xs text-neutral-500">多すぎて数えられません</span>
+                      ) : (
+                        `${row.exactCount.toLocaleString("ja-JP")}通り`
+                      )}
+                    </td>
+                    <td className="p-3 text-right">
+                      <button
+                        className="rounded-lg bg-neutral-800 px-2 py-1 text-xs hover:bg-neutral-700 transition"
+                        onClick={() => onSelect(row.restaurant)}
+                      >
+                        開く
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {table.some((row) => row.truncated) && (
+              <p className="px-3 pb-3 text-xs text-neutral-500">※ 一部の店は探索を途中で打ち切っています（最適でない場合があります）</p>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import type { Item } from "./types";
+import { parsePeriod, dekadFlags, dekadIndex, eventRanges, isOnSaleOn, nextSaleStart, formatDay } from "./period";
+
+// ============================================================
+// 季節限定品の年間カレンダー（販売期間を旬ごとに塗り分ける）
+// ============================================================
+
+const SOON_DAYS = 30; // 「まもなく販売開始」とみなす日数
+
+export default function SeasonCalendar({
+  items,
+  categories,
+  today,
+  onShowToday,
+}: {
+  items: Item[];
+  categories: string[]; // 表示順
+  today: string; // "YYYY-MM-DD"
+  onShowToday: () => void; // 今日販売中の品だけをメニューに表示する
+}) {
+  const year = Number(today.slice(0, 4));
+  const todayIndex = dekadIndex(today);
+  const rows = items
+    .map((it) => ({ item: it, period: it.period ? parsePeriod(it.period) : null }))
+    .filter((x) => x.period !== null)
+    .sort((a, b) => categories.indexOf(a.item.category) - categories.indexOf(b.item.category))
+    .map((x) => ({ ...x, flags: dekadFlags(x.period!, year), onSale: isOnSaleOn(x.item, today) }));
+  const onSale = rows.filter((r) => r.onSale);
+  const soon = rows
+    .map((r) => ({ item: r.item, start: nextSaleStart(r.item, today, SOON_DAYS) }))
+    .filter((x): x is { item: Item; start: string } => x.start !== null)
+    .sort((a, b) => a.start.localeCompare(b.start));
+  const hasEvents = rows.some((r) => "event" in r.period!);
+  const higan = eventRanges("お彼岸", year);
+  const obon = eventRanges("お盆", year)[0];
+  const jugoyaDay = eventRanges("十五夜", year)[0].from;
+
+  return (
+    <div className="mt-4 space-y-4">
+      {/* 今日の販売状況 */}
+      <div className="rounded-2xl border border-neutral-800 p-4 text-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold">{formatDay(today)} の季節限定品</h2>
+          <button
+            className="rounded-lg bg-[var(--accent)] px-3 py-1.5 text-xs text-white hover:opacity-90 transition"
+            onClick={onShowToday}
+          >
+            今日販売中の品だけ表示
+          </button>
+        </div>
+        <div className="mt-2">
+          <span className="text-neutral-400">販売中：</span>
+          {onSale.length > 0 ? onSale.map((r) => r.item.name).join("、") : <span className="text-neutral-500">なし</span>}
+        </div>
+        {soon.length > 0 && (
+          <div className="mt-1">
+            <span className="text-neutral-400">まもなく開始：</span>
+            {soon.map((x) => (
+              <span key={x.item.id} className="mr-3 text-amber-300">
+                {x.item.name}（{formatDay(x.start)}〜）
+              </span>
+            ))}
+          </div>
+        )}
+        {hasEvents && (
+          <div className="mt-2 text-xs text-neutral-500">
+            {year}年のお彼岸：{higan.map((r) => `${formatDay(r.from)}〜${formatDay(r.to)}`).join("、")}
+            ／お盆：{formatDay(obon.from)}〜{formatDay(obon.to)}
+            ／十五夜：{formatDay(jugoyaDay)}
+          </div>
+        )}
+      </div>
+
+      {/* 年間カレンダー */}
+      <div className="overflow-x-auto rounded-2xl border border-neutral-800 p-4">
+        <table className="w-full min-w-[720px] border-collapse text-xs">
+          <thead>
+            <tr>
+              <th className="w-40 text-left font-normal text-neutral-500">{year}年</th>
+              {Array.from({ length: 12 }, (_, m) => (
+                <th key={m} colSpan={3} className="border-l border-neutral-800 font-normal text-neutral-400">
+                  {m + 1}月
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ item, flags, onSale: on }, i) => (
+              <tr key={item.id}>
+                <td className={`truncate py-0.5 pr-2 ${on ? "font-semibold text-neutral-100" : "text-neutral-400"}`}>
+                  {(i === 0 || rows[i - 1].item.category !== item.category) && (
+                    <span className="mr-1 text-neutral-600">{item.category}</span>
+                  )}
+                  {item.name}
+                </td>
+                {flags.map((f, d) => (
+                  <td
+                    key={d}
+                    title={`${item.name}：${item.period}`}
+                    className={`h-4 p-0 ${d % 3 === 0 ? "border-l border-neutral-800" : ""} ${
+                      d === todayIndex ? "outline outline-1 outline-neutral-400" : ""
+                    }`}
+                  >
+                    {f && <div className={`h-3 ${on ? "bg-[var(--accent)]" : "bg-[var(--accent-50)]"}`} />}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="mt-2 text-xs text-neutral-500">
+          枠線は今日の旬。お彼岸・お盆・十五夜の限定品はその年の日付で表示しています
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useMemo, useState, useEffect } from "react";
+import React, { useMemo, useState, useEffect, useRef } from "react";
 import type {
   Item,
   Targets,
@@ -8,9 +8,38 @@ import type {
   BudgetSearchConfig,
   BudgetSearchOutcome,
   BudgetSearchResult,
+  Coupon,
+  OrderTime,
+  TaxMode,
+  AssortmentBox,
+  GiftPlan,
+  BillSplit,
+  GroupSearchConfig,
 } from "./types";
-import { searchCombinations } from "./budgetSearch";
+import { startBudgetSearch } from "./budgetSearchClient";
+import type { BudgetSearchHandle } from "./budgetSearchClient";
+import { CAP as SEARCH_PAGE_SIZE } from "./budgetSearch";
 import BudgetSearchPanel from "./BudgetSearchPanel";
+import PackPlanner from "./PackPlanner";
+import AssortmentBuilder from "./AssortmentBuilder";
+import GiftPlanner from "./GiftPlanner";
+import SeasonCalendar from "./SeasonCalendar";
+import SplitPanel from "./SplitPanel";
+import GroupSearchPanel from "./GroupSearchPanel";
+import TargetsEditor from "./TargetsEditor";
+import { applyCoupons } from "./coupons";
+import { WEEKDAYS, isAvailableAt, formatAvailability, orderTimeOf, formatOrderTime } from "./availability";
+import { isOnSaleOn, dateString, formatDay } from "./period";
+import { TAX_RATES, TAX_MODE_LABELS, effectiveTaxMode, withTaxMode, taxBreakdown, couponsWithTaxMode } from "./tax";
+import { menuAsOf, priceEras, savedListPrice } from "./priceHistory";
+import { setSavings, optimizeSets } from "./sets";
+import { packFamilies, perPiece } from "./packs";
+import { boxableItems, boxesToQty } from "./assortment";
+import { checkExpiry } from "./expiry";
+import { splitLines, defaultSplit, compactSplit, isBillSplit, assignmentLabel } from "./split";
+import { newMember } from "./groupSearch";
+import { usePersistentState } from "./usePersistentState";
+import { evaluateTargets, removeTarget, seedSearchConfig } from "./targets";
 
 // ============================================================
 // ヘルパー関数（純関数 = 状態を持たない計算機）
@@ -31,10 +60,13 @@ function hexToRgb(hex: string): [number, number, number] {
   return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
 }
 
+// price は割引後の支払額、listPrice は割引前の合計。items は店内/持ち帰りの税込価格（withTaxMode）
 function computeTotals(
   items: Item[],
   qty: Record<string, number>,
-  addonSelections?: Record<string, string[]>
+  addonSelections?: Record<string, string[]>,
+  coupons: Coupon[] = [],
+  taxRate = TAX_RATES["eat-in"]
 ) {
   const getQty = (id: string) => Math.max(0, qty[id] || 0);
   const getAddonPrice = (id: string) =>
@@ -42,9 +74,16 @@ function computeTotals(
       const a = items.find((x) => x.id === aid);
       return s + (a?.price ?? 0);
     }, 0);
+  const listPrice = sum(items.map((it) => (it.price + getAddonPrice(it.id)) * getQty(it.id)));
+  const discounts = applyCoupons(items, qty, listPrice, coupons);
+  const price = listPrice - sum(discounts.map((d) => d.amount));
   return {
     count: sum(items.map((it) => getQty(it.id))),
-    price: sum(items.map((it) => (it.price + getAddonPrice(it.id)) * getQty(it.id))),
+    listPrice,
+    discounts,
+    price,
+    taxRate,
+    ...taxBreakdown(price, taxRate), // base: 税抜 / tax: 消費税額
   };
 }
 
@@ -60,7 +99,9 @@ function createSavedCombo(
   name: string,
   qty: Record<string, number>,
   targets?: Targets,
-  addonSelections?: Record<string, string[]>
+  addonSelections?: Record<string, string[]>,
+  taxMode?: TaxMode,
+  items: Item[] = []
 ): SavedCombo {
   const compactQty = Object.fromEntries(
     Object.entries(qty)
@@ -80,6 +121,13 @@ function createSavedCombo(
     qty: compactQty,
     targets,
     ...(Object.keys(compactAddons).length > 0 && { addonSelections: compactAddons }),
+    ...(taxMode && { taxMode }),
+    // 価格改定後も「保存時にいくらだったか」を出せるよう、使った品の単価を残す
+    prices: Object.fromEntries(
+      items
+        .filter((it) => (compactQty[it.id] ?? 0) > 0 || Object.values(compactAddons).some((aids) => aids.includes(it.id)))
+        .map((it) => [it.id, it.price])
+    ),
   };
 }
 
@@ -91,31 +139,11 @@ function validateSavedCombo(s: unknown): s is SavedCombo {
     typeof obj.name === "string" &&
     typeof obj.createdAt === "number" &&
     obj.qty !== null &&
-    typeof obj.qty === "object"
+    typeof obj.qty === "object" &&
+    (obj.split === undefined || isBillSplit(obj.split))
   );
 }
 
-// ============================================================
-// カスタムフック：localStorage に自動保存するステート
-// ============================================================
-
-function usePersistentState<T>(key: string, initial: T) {
-  const [state, setState] = useState<T>(() => {
-    try {
-      const raw = localStorage.getItem(key);
-      return raw ? (JSON.parse(raw) as T) : initial;
-    } catch {
-      return initial;
-    }
-  });
-  useEffect(() => {
-    try {
-      localStorage.setItem(key, JSON.stringify(state));
-    } catch {}
-  }, [key, state]);
-  return [state, setState] as const;
-}
-
 // ============================================================
 // メインコンポーネント
 // ============================================================
@@ -127,14 +155,24 @@ type Props = {
   onBack: () => void;
   initialQty?: Record<string, number> | null;
   initialCloudId?: string | null;
+  initialSplit?: string | null; // URLシェアの割り勘（base64 JSON）
+  onOpenCustomUi?: () => void; // 独自UI（iframeSrc）を持つ店舗: そちらの画面に戻す
 };
 
-export default function Simulator({ restaurant, onBack, initialQty, initialCloudId }: Props) {
+export default function Simulator({ restaurant, onBack, initialQty, initialCloudId, initialSplit, onOpenCustomUi }: Props) {
   // ストレージキーをレストランIDごとに分離（サイゼリヤと日高屋のデータが混ざらない）
   const KEY = `gaisyoku-sim-v3:${restaurant.id}`;
 
   // ── すべての useState / usePersistentState をここにまとめる ──
-  const items = restaurant.items;
+  // 店内/持ち帰り（持ち帰りに対応した店のみ切り替え可。items の price はこのモードの税込価格）
+  const [taxModeSetting, setTaxMode] = usePersistentState<TaxMode>(`${KEY}:taxMode`, "eat-in");
+  const taxMode = effectiveTaxMode(restaurant, taxModeSetting);
+  // 価格の基準日（null = 最新。価格改定の履歴がある店のみ過去のメニューを表示できる）
+  const [asOf, setAsOf] = useState<string | null>(null);
+  const items = useMemo(
+    () => withTaxMode(menuAsOf(restaurant, asOf), taxMode),
+    [restaurant, asOf, taxMode]
+  );
   const [qty, setQty] = usePersistentState<Record<string, number>>(`${KEY}:qty`, {});
   // メニューIDごとのアドオン選択状態（localStorageに保存）
   const [addonSelections, setAddonSelections] = usePersistentState<Record<string, string[]>>(
@@ -144,6 +182,14 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
     `${KEY}:targets`,
     restaurant.defaultTargets
   );
+  // 手持ちのクーポン（ON にしたものだけ会計に適用）
+  const [couponIds, setCouponIds] = usePersistentState<string[]>(`${KEY}:coupons`, []);
+  // 注文する日時（null = 指定なし。販売時間帯のある品の判定に使う）
+  const [orderAt, setOrderAt] = usePersistentState<OrderTime | null>(`${KEY}:orderAt`, null);
+  // 販売日（null = 指定なし。"YYYY-MM-DD"。指定時は販売期間外の品を一覧から外す）
+  const [saleDate, setSaleDate] = usePersistentState<string | null>(`${KEY}:saleDate`, null);
+  // 手土産の買う日・渡す日（null = 未設定。期限の書かれた品がある店のみ）
+  const [giftPlan, setGiftPlan] = usePersistentState<GiftPlan | null>(`${KEY}:giftPlan`, null);
   const [query, setQuery] = useState("");
   const [activeCategory, setActiveCategory] = useState<string>(
     restaurant.categories[0]
@@ -154,10 +200,24 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
   const [showSaveList, setShowSaveList] = useState(false);
   const [saveSearch, setSaveSearch] = useState("");
   const [saveSort, setSaveSort] = useState<"date" | "price-asc" | "price-desc">("date");
+  const [historySaveId, setHistorySaveId] = useState<string | null>(null); // 価格推移を開いている保存データ
   const [copied, setCopied] = useState(false);
   const [activeTag, setActiveTag] = useState<string | null>(null);
   const [pendingImport, setPendingImport] = useState<SavedCombo[] | null>(null);
-  const [viewMode, setViewMode] = useState<"menu" | "budget-search">("menu");
+  const [viewMode, setViewMode] = useState<"menu" | "budget-search" | "assortment" | "calendar" | "split">("menu");
+  // 詰め合わせモードで作っている箱（詰め合わせに対応した店のみ）
+  const [boxes, setBoxes] = usePersistentState<AssortmentBox[]>(`${KEY}:boxes`, []);
+  // 割り勘の参加者と品ごとの割り当て
+  const [split, setSplit] = usePersistentState<BillSplit>(`${KEY}:split`, defaultSplit(), isBillSplit);
+  // 予算探索の対象（ひとり分 / グループで1人ずつ）
+  const [searchScope, setSearchScope] = useState<"single" | "group">("single");
+  const [group, setGroup] = usePersistentState<GroupSearchConfig>(`${KEY}:group`, {
+    members: [
+      newMember("自分", restaurant.defaultTargets.budget ?? 1000),
+      newMember("2人目", restaurant.defaultTargets.budget ?? 1000),
+    ],
+    shared: {},
+  });
   const [searchConfig, setSearchConfig] = usePersistentState<BudgetSearchConfig>(
     `${KEY}:searchConfig`,
     {
@@ -165,26 +225,72 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
       maxItems: 4,
       mode: "exact",
       requiredIds: [],
+      requiredQty: {},
       excludedIds: [],
       categoryLimits: {},
+      categoryMins: {},
+      tagMins: {},
+      tagLimits: {},
+      itemLimits: {},
+      noDuplicates: false,
       groupEquivalents: false,
     }
   );
   const [searchOutcome, setSearchOutcome] = useState<BudgetSearchOutcome | null>(null);
+  const [searchPartial, setSearchPartial] = useState<BudgetSearchResult[]>([]); // 探索中に届いた途中結果
+  const [searchProgress, setSearchProgress] = useState<number | null>(null); // 探索済みノード数（探索中以外は null）
+  const searchRef = useRef<BudgetSearchHandle | null>(null); // 実行中（またはページ取得用に残した）探索
 
   // ── すべての useMemo をここにまとめる ──
-  const totals = useMemo(() => computeTotals(items, qty, addonSelections), [items, qty, addonSelections]);
+  const activeCoupons = useMemo(
+    () => couponsWithTaxMode(restaurant, taxMode).filter((c) => couponIds.includes(c.id)),
+    [restaurant, taxMode, couponIds]
+  );
+  const totals = useMemo(
+    () => computeTotals(items, qty, addonSelections, activeCoupons, TAX_RATES[taxMode]),
+    [items, qty, addonSelections, activeCoupons, taxMode]
+  );
   const selectedItems = useMemo(
     () => items.filter((it) => (qty[it.id] || 0) > 0),
     [items, qty]
   );
+  const hasAvailability = useMemo(() => items.some((it) => it.availability?.length), [items]);
+  const isUnavailable = (it: Item) => orderAt !== null && !isAvailableAt(it, orderAt);
+  const hasPeriod = useMemo(() => items.some((it) => it.period), [items]);
+  const eras = useMemo(() => priceEras(restaurant), [restaurant]);
+  const itemById = useMemo(() => new Map(items.map((it) => [it.id, it])), [items]);
+  // カートをセットにまとめると安くなる場合の組み替え案
+  const setPlan = useMemo(() => optimizeSets(items, qty, addonSelections), [items, qty, addonSelections]);
+  const families = useMemo(() => packFamilies(items), [items]);
+  const boxable = useMemo(
+    () =>
+      restaurant.assortment
+        ? boxableItems(items, restaurant.assortment).filter((it) => !saleDate || isOnSaleOn(it, saleDate))
+        : [],
+    [items, restaurant.assortment, saleDate]
+  );
+  const isOffSeason = (it: Item) => saleDate !== null && !isOnSaleOn(it, saleDate);
+  const lines = useMemo(() => splitLines(items, qty, addonSelections), [items, qty, addonSelections]);
+  // 予算以外の目標の達成状況（予算は専用のインジケーターで出す）
+  const goals = useMemo(
+    () => evaluateTargets(targets, items, qty, addonSelections, totals.price).filter((g) => g.key !== "budget"),
+    [targets, items, qty, addonSelections, totals.price]
+  );
+  const hasExpiry = useMemo(() => items.some((it) => it.expiry), [items]);
+  const expiryCheck = useMemo(
+    () => (giftPlan ? checkExpiry(selectedItems, giftPlan.purchaseDate, giftPlan.handoutDate) : null),
+    [selectedItems, giftPlan]
+  );
   const filtered = useMemo(() => {
     let result = simpleFilter(items, query);
     if (activeTag) {
       result = result.filter((it) => it.tags?.includes(activeTag));
     }
+    if (saleDate) {
+      result = result.filter((it) => isOnSaleOn(it, saleDate));
+    }
     return result;
-  }, [items, query, activeTag]);
+  }, [items, query, activeTag, saleDate]);
 
   // 全タグをtagOrder順で並べたリスト（タグ一覧表示用）
   const allTagsSorted = useMemo(() => {
@@ -215,6 +321,18 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
     if (initialQty) setQty(initialQty);
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // URLシェアに割り勘が含まれていれば復元して割り勘画面を開く
+  useEffect(() => {
+    if (!initialSplit) return;
+    try {
+      const decoded = JSON.parse(decodeURIComponent(escape(atob(initialSplit))));
+      if (isBillSplit(decoded)) {
+        setSplit(decoded);
+        setViewMode("split");
+      }
+    } catch { /* ignore */ }
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
   // URLシェアで initialCloudId（saves base64）が渡された場合、インポート確認を表示
   useEffect(() => {
     if (!initialCloudId) return;
@@ -227,6 +345,31 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
     } catch { /* ignore */ }
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // 探索条件が変わったら実行中の探索を中止（アンマウント時も同様）。
+  // ページ取得に使うワーカーも破棄するので、前の条件の結果も消す（残すと「次へ」が効かない）
+  useEffect(() => {
+    return () => {
+      searchRef.current?.cancel();
+      searchRef.current = null;
+      setSearchProgress(null);
+      setSearchPartial([]);
+      setSearchOutcome(null);
+    };
+  }, [searchConfig]);
+
+  // 「残りを埋める」の結果は探索時点のカートが前提なので、カートが変わったら破棄する
+  useEffect(() => {
+    if (searchConfig.fillFromCart) setSearchOutcome(null);
+  }, [qty, addonSelections]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // 店内/持ち帰りで価格が変わるので、前のモードの探索結果は破棄する
+  useEffect(() => {
+    searchRef.current?.cancel();
+    searchRef.current = null;
+    setSearchProgress(null);
+    setSearchOutcome(null);
+  }, [taxMode]);
+
   // 1品でも選んだら自動でドロワーを開く
   useEffect(() => {
     if (totals.count > 0) setShowOrderList(true);
@@ -251,8 +394,13 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
 
   // 保存
   const saveCurrent = () => {
-    const saved = createSavedCombo(saveName, qty, targets, addonSelections);
-    setSaves((prev) => [...prev.slice(-(MAX_SAVES - 1)), saved]);
+    const saved = createSavedCombo(
+      saveName, qty, targets, addonSelections, restaurant.takeout ? taxMode : undefined, items
+    );
+    setSaves((prev) => [
+      ...prev.slice(-(MAX_SAVES - 1)),
+      split.diners.length > 1 ? { ...saved, split: compactSplit(split, saved.qty) } : saved,
+    ]);
     setSaveName(new Date().toLocaleString("ja-JP"));
   };
 
@@ -260,6 +408,17 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
     setQty({ ...s.qty });
     if (s.targets) setTargets({ ...s.targets });
     setAddonSelections(s.addonSelections ? { ...s.addonSelections } : {});
+    if (s.taxMode) setTaxMode(s.taxMode);
+    if (s.boxes) setBoxes(s.boxes.map((b) => ({ ...b, items: { ...b.items } })));
+    if (s.split && isBillSplit(s.split)) setSplit(s.split);
+  };
+
+  // 詰め合わせ：全箱を1つの保存データにする（qty は全箱の合計）
+  const saveBoxes = (name: string) => {
+    const saved = createSavedCombo(
+      name || saveName, boxesToQty(boxes), targets, {}, restaurant.takeout ? taxMode : undefined, items
+    );
+    setSaves((prev) => [...prev.slice(-(MAX_SAVES - 1)), { ...saved, boxes }]);
   };
 
   const deleteSave = (id: string) => {
@@ -330,13 +489,80 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
 
   const reset = () => { setQty({}); setAddonSelections({}); };
 
+  // 目標から予算探索の条件を作って探索画面を開く
+  const seedSearchFromTargets = () => {
+    const seeded = seedSearchConfig(targets, items, searchConfig);
+    setSearchConfig(seeded.config);
+    setSearchScope("single");
+    setViewMode("budget-search");
+    if (seeded.adjusted.length > 0) alert(seeded.adjusted.join("\n\n"));
+  };
+
+  // 予算探索（Web Workerで実行し、途中結果を逐次表示）
+  const cancelSearch = () => {
+    searchRef.current?.cancel();
+    searchRef.current = null;
+    setSearchProgress(null);
+  };
+
+  const runSearch = () => {
+    cancelSearch();
+    setSearchOutcome(null);
+    setSearchPartial([]);
+    setSearchProgress(0);
+    // 「残りを埋める」ときは、いまのカート（数量・トッピング）を固定行として渡す。
+    // 注文日時を指定していれば、その時間に売っていない品は探索から外す
+    const config: BudgetSearchConfig = {
+      ...searchConfig,
+      locked: searchConfig.fillFromCart
+        ? {
+            lines: selectedItems.map((it) => ({
+              itemId: it.id,
+              groupIds: [it.id],
+              qty: qty[it.id],
+              ...(addonSelections[it.id]?.length && { addonIds: [...addonSelections[it.id]] }),
+            })),
+            total: totals.listPrice, // 探索は割引前の価格で行う
+          }
+        : undefined,
+      orderAt: orderAt ?? undefined,
+      saleDate: saleDate ?? undefined,
+    };
+    searchRef.current = startBudgetSearch(items, config, {
+      onProgress: (nodes, results) => {
+        setSearchProgress(nodes);
+        setSearchPartial(results);
+      },
+      onDone: (outcome) => {
+        setSearchProgress(null);
+        setSearchPartial([]);
+        setSearchOutcome(outcome);
+      },
+      onPage: (offset, results) => {
+        setSearchOutcome((prev) => (prev?.kind === "ok" ? { ...prev, offset, results } : prev));
+      },
+    });
+  };
+
+  // ちょうど・範囲探索の結果ページを切り替える（ワーカーに残した数え上げから取得）
+  const requestSearchPage = (offset: number) => {
+    searchRef.current?.requestPage(offset, SEARCH_PAGE_SIZE);
+  };
+
   // 予算探索の結果をメニュー選択に反映
+  // カートから固定した行を含む結果（「残りを埋める」）は、追加分だけをカートに足す
   const applySearchResult = (result: BudgetSearchResult) => {
-    const next: Record<string, number> = {};
+    const merge = result.lines.some((l) => l.locked);
+    const next: Record<string, number> = merge ? { ...qty } : {};
+    const addons: Record<string, string[]> = merge ? { ...addonSelections } : {};
     result.lines.forEach((l) => {
+      if (l.locked) return;
       next[l.itemId] = (next[l.itemId] || 0) + l.qty;
+      if (l.addonIds) addons[l.itemId] = [...l.addonIds];
     });
     setQty(next);
+    // トッピングも結果どおりに置き換える（前の選択が残ると合計がずれるため）
+    setAddonSelections(addons);
     setTargets((prev) => ({ ...prev, budget: result.total }));
     setViewMode("menu");
   };
@@ -349,7 +575,12 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
       .join(",");
     if (!compact) return;
     const base = window.location.href.split("#")[0];
-    const url = `${base}#r=${restaurant.id}&q=${compact}`;
+    // 2人以上で割り勘にしていれば、その設定も載せる
+    const splitParam =
+      split.diners.length > 1
+        ? `&s=${encodeURIComponent(btoa(unescape(encodeURIComponent(JSON.stringify(compactSplit(split, qty))))))}`
+        : "";
+    const url = `${base}#r=${restaurant.id}&q=${compact}${splitParam}`;
     navigator.clipboard.writeText(url).then(() => {
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
@@ -415,6 +646,14 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
               <p className="text-sm text-neutral-400">メニュー組み合わせシミュレーター</p>
             </div>
           </div>
+          {onOpenCustomUi && (
+            <button
+              className="self-start rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700 transition sm:self-auto"
+              onClick={onOpenCustomUi}
+            >
+              ← 独自UI版に戻る
+            </button>
+          )}
         </header>
 
         {/* モード切替タブ */}
@@ -423,7 +662,10 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
             [
               ["menu", "メニュー選択"],
               ["budget-search", "予算探索"],
-            ] as const
+              ...(restaurant.assortment ? [["assortment", "詰め合わせ"]] : []),
+              ...(hasPeriod ? [["calendar", "販売カレンダー"]] : []),
+              ["split", "割り勘"],
+            ] as [typeof viewMode, string][]
           ).map(([mode, label]) => (
             <button
               key={mode}
@@ -440,18 +682,109 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
         </div>
 
         {viewMode === "budget-search" && (
+          <div className="mt-4 flex gap-1 text-xs">
+            {(
+              [
+                ["single", "ひとり分"],
+                ["group", "グループ（1人ずつ）"],
+              ] as const
+            ).map(([scope, label]) => (
+              <button
+                key={scope}
+                className={`rounded-lg px-3 py-1.5 transition ${
+                  searchScope === scope
+                    ? "bg-neutral-200 text-neutral-900"
+                    : "bg-neutral-900 text-neutral-400 hover:bg-neutral-800"
+                }`}
+                onClick={() => setSearchScope(scope)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {viewMode === "budget-search" && searchScope === "group" && (
+          <GroupSearchPanel
+            items={items}
+            categories={restaurant.categories}
+            base={searchConfig}
+            group={group}
+            setGroup={setGroup}
+            split={split}
+            onApply={(nextQty, nextSplit) => {
+              setQty(nextQty);
+              setAddonSelections({});
+              setSplit(nextSplit);
+              setViewMode("menu");
+              setShowOrderList(true);
+            }}
+            yen={yen}
+          />
+        )}
+
+        {viewMode === "budget-search" && searchScope === "single" && (
           <BudgetSearchPanel
             items={items}
             restaurant={restaurant}
+            tags={allTagsSorted}
+            cart={{ count: totals.count, price: totals.listPrice }}
+            priceLabel={restaurant.takeout ? TAX_MODE_LABELS[taxMode] : undefined}
             config={searchConfig}
             setConfig={setSearchConfig}
             outcome={searchOutcome}
-            onSearch={() => setSearchOutcome(searchCombinations(items, searchConfig))}
+            partialResults={searchPartial}
+            progress={searchProgress}
+            onSearch={runSearch}
+            onCancel={cancelSearch}
+            onPage={requestSearchPage}
+            pageSize={SEARCH_PAGE_SIZE}
             onApply={applySearchResult}
             yen={yen}
           />
         )}
 
+        {viewMode === "assortment" && restaurant.assortment && (
+          <AssortmentBuilder
+            items={boxable}
+            allItems={items}
+            isOffSeason={isOffSeason}
+            capacities={restaurant.assortment.capacities}
+            boxes={boxes}
+            setBoxes={setBoxes}
+            onSave={saveBoxes}
+            onApply={() => {
+              setQty(boxesToQty(boxes));
+              setViewMode("menu");
+            }}
+            yen={yen}
+          />
+        )}
+
+        {viewMode === "calendar" && (
+          <SeasonCalendar
+            items={items}
+            categories={restaurant.categories}
+            today={dateString(new Date())}
+            onShowToday={() => {
+              setSaleDate(dateString(new Date()));
+              setViewMode("menu");
+            }}
+          />
+        )}
+
+        {viewMode === "split" && (
+          <SplitPanel
+            items={items}
+            qty={qty}
+            lines={lines}
+            total={totals.price}
+            split={split}
+            setSplit={setSplit}
+            yen={yen}
+          />
+        )}
+
         {viewMode === "menu" && (
         <>
         {/* コントロールエリア */}
@@ -459,7 +792,25 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
 
           {/* 合計サマリー */}
           <div className="rounded-2xl border border-neutral-800 p-4">
-            <h2 className="mb-3 text-lg font-semibold">合計</h2>
+            <div className="mb-3 flex items-center justify-between">
+              <h2 className="text-lg font-semibold">合計</h2>
+              {/* 店内/持ち帰り（税率が変わるので価格ごと切り替わる） */}
+              {restaurant.takeout && (
+                <div className="flex rounded-lg bg-neutral-900 p-0.5 text-xs">
+                  {(["eat-in", "takeout"] as const).map((m) => (
+                    <button
+                      key={m}
+                      className={`rounded-md px-2.5 py-1 transition ${
+                        taxMode === m ? "bg-[var(--accent)] text-white" : "text-neutral-400 hover:text-neutral-200"
+                      }`}
+                      onClick={() => setTaxMode(m)}
+                    >
+                      {TAX_MODE_LABELS[m]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <div className="space-y-2">
               <div className="flex items-baseline justify-between">
                 <span className="text-neutral-400 text-sm">金額</span>
@@ -471,6 +822,15 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                   {yen(totals.price)}
                 </span>
               </div>
+              {totals.discounts.length > 0 && (
+                <div className="flex items-baseline justify-between text-xs text-neutral-500">
+                  <span>定価</span>
+                  <span>
+                    <span className="line-through">{yen(totals.listPrice)}</span>
+                    <span className="ml-2 text-amber-400">−{yen(totals.listPrice - totals.price)}</span>
+                  </span>
+                </div>
+              )}
               <div className="flex items-baseline justify-between">
                 <span className="text-neutral-400 text-sm">品数</span>
                 <span className="text-lg font-semibold">{totals.count} 品</span>
@@ -490,6 +850,41 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                 : `✗ 予算オーバー（${yen(overAmount)} 超過）`}
             </div>
 
+            {/* 予算以外の目標 */}
+            {goals.length > 0 && (
+              <div className="mt-2 space-y-1.5">
+                {goals.map((g) => (
+                  <div key={g.key} className="text-xs">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={g.ok ? "text-[var(--accent-light)]" : g.kind === "max" ? "text-red-300" : "text-neutral-300"}>
+                        {g.ok ? "✓" : g.kind === "max" ? "✗" : "…"} {g.label}
+                      </span>
+                      <span className="flex items-center gap-2 text-neutral-400 tabular-nums">
+                        {g.unit === "円" ? yen(g.current) : `${g.current}品`}
+                        {!g.ok &&
+                          (g.kind === "min"
+                            ? `（あと${g.unit === "円" ? yen(g.goal - g.current) : `${g.goal - g.current}品`}）`
+                            : `（${yen(g.current - g.goal)}超過）`)}
+                        <button
+                          className="text-neutral-600 hover:text-red-400 transition"
+                          onClick={() => setTargets((prev) => removeTarget(prev, g.key))}
+                          aria-label="目標を削除"
+                        >
+                          ✕
+                        </button>
+                      </span>
+                    </div>
+                    <div className="mt-0.5 h-1 overflow-hidden rounded-full bg-neutral-800">
+                      <div
+                        className={`h-full ${g.ok ? "bg-[var(--accent)]" : g.kind === "max" ? "bg-red-500" : "bg-neutral-500"}`}
+                        style={{ width: `${g.goal > 0 ? Math.min(100, (g.current / g.goal) * 100) : 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="mt-3 flex flex-wrap gap-2 text-xs">
               <button
                 className="rounded-lg bg-neutral-800 px-3 py-1.5 hover:bg-neutral-700 transition"
@@ -515,6 +910,42 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                 {copied ? "コピーしました!" : "共有リンク生成"}
               </button>
             </div>
+
+            {/* クーポン（持っているものを ON にする） */}
+            {restaurant.coupons && restaurant.coupons.length > 0 && (
+              <div className="mt-4">
+                <div className="text-sm text-neutral-400 mb-1.5">クーポン</div>
+                <div className="space-y-1">
+                  {restaurant.coupons.map((c) => {
+                    const on = couponIds.includes(c.id);
+                    const applied = totals.discounts.find((d) => d.couponId === c.id);
+                    return (
+                      <label key={c.id} className="flex items-center gap-2 text-xs cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={on}
+                          onChange={() =>
+                            setCouponIds((prev) =>
+                              on ? prev.filter((id) => id !== c.id) : [...prev, c.id]
+                            )
+                          }
+                        />
+                        <span className="flex-1 text-neutral-200">
+                          {c.name}
+                          {c.until && <span className="ml-1 text-neutral-500">〜{c.until}</span>}
+                          {c.exclusive && <span className="ml-1 text-neutral-500">（併用不可）</span>}
+                        </span>
+                        {applied ? (
+                          <span className="text-amber-400 tabular-nums">−{yen(applied.amount)}</span>
+                        ) : on ? (
+                          <span className="text-neutral-600">対象なし</span>
+                        ) : null}
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* 予算設定 + 検索 */}
@@ -540,6 +971,101 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
               <span className="shrink-0 text-neutral-400">円</span>
             </div>
 
+            <TargetsEditor
+              targets={targets}
+              setTargets={setTargets}
+              categories={restaurant.categories}
+              tags={allTagsSorted}
+              onSeedSearch={seedSearchFromTargets}
+            />
+
+            {/* 注文する日時（販売時間帯のある品がある店のみ） */}
+            {hasAvailability && (
+              <div className="mt-3 flex items-center gap-2 text-sm">
+                <span className="shrink-0 text-neutral-400">注文日時</span>
+                {orderAt ? (
+                  <>
+                    <select
+                      className="rounded-lg bg-neutral-900 px-2 py-1.5"
+                      value={orderAt.weekday}
+                      onChange={(e) => setOrderAt({ ...orderAt, weekday: Number(e.target.value) })}
+                    >
+                      {WEEKDAYS.map((d, i) => (
+                        <option key={d} value={i}>{d}曜</option>
+                      ))}
+                    </select>
+                    <input
+                      type="time"
+                      className="rounded-lg bg-neutral-900 px-2 py-1.5"
+                      value={orderAt.time}
+                      onChange={(e) => e.target.value && setOrderAt({ ...orderAt, time: e.target.value })}
+                    />
+                    <button
+                      className="rounded-lg bg-neutral-800 px-2 py-1.5 text-xs hover:bg-neutral-700 transition"
+                      onClick={() => setOrderAt(null)}
+                    >
+                      指定なし
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    className="rounded-lg bg-neutral-800 px-3 py-1.5 text-xs hover:bg-neutral-700 transition"
+                    onClick={() => setOrderAt(orderTimeOf(new Date()))}
+                  >
+                    いまの日時で指定
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* 販売日（季節限定品がある店のみ） */}
+            {hasPeriod && (
+              <div className="mt-3 flex items-center gap-2 text-sm">
+                <span className="shrink-0 text-neutral-400">販売日</span>
+                {saleDate ? (
+                  <>
+                    <input
+                      type="date"
+                      className="rounded-lg bg-neutral-900 px-2 py-1.5"
+                      value={saleDate}
+                      onChange={(e) => e.target.value && setSaleDate(e.target.value)}
+                    />
+                    <button
+                      className="rounded-lg bg-neutral-800 px-2 py-1.5 text-xs hover:bg-neutral-700 transition"
+                      onClick={() => setSaleDate(null)}
+                    >
+                      指定なし
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    className="rounded-lg bg-neutral-800 px-3 py-1.5 text-xs hover:bg-neutral-700 transition"
+                    onClick={() => setSaleDate(dateString(new Date()))}
+                  >
+                    今日販売中の品だけ表示
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* 価格の基準日（価格改定の履歴がある店のみ） */}
+            {eras.length > 0 && (
+              <div className="mt-3 flex items-center gap-2 text-sm">
+                <span className="shrink-0 text-neutral-400">価格</span>
+                <select
+                  className="w-full rounded-lg bg-neutral-900 px-2 py-1.5"
+                  value={asOf ?? ""}
+                  onChange={(e) => setAsOf(e.target.value || null)}
+                >
+                  {eras.map((e) => (
+                    <option key={e.label} value={e.asOf ?? ""}>
+                      {e.asOf === null ? `最新（${e.label}）` : e.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className="mt-3">
               <input
                 className="w-full rounded-lg bg-neutral-900 px-3 py-2 text-sm placeholder-neutral-500"
@@ -679,8 +1205,21 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                   {saves.length === 0 ? (
                     <div className="text-xs text-neutral-500 text-center py-3">保存データはありません</div>
                   ) : (() => {
+                    // 保存データの金額は常に最新の価格で計算し、保存時の金額と比べる
+                    const totalsAsOf = (s: SavedCombo, date: string | null) =>
+                      computeTotals(
+                        withTaxMode(menuAsOf(restaurant, date), effectiveTaxMode(restaurant, s.taxMode ?? taxMode)),
+                        s.qty,
+                        s.addonSelections
+                      );
                     const list = [...saves]
-                      .map((s) => ({ ...s, _totals: computeTotals(items, s.qty) }))
+                      .map((s) => ({
+                        ...s,
+                        _totals: totalsAsOf(s, null),
+                        // 単価の記録がない古い保存データは、保存日時点のメニューで計算する
+                        _savedPrice:
+                          savedListPrice(s) ?? totalsAsOf(s, dateString(new Date(s.createdAt))).listPrice,
+                      }))
                       .filter((s) =>
                         !saveSearch || s.name.toLowerCase().includes(saveSearch.toLowerCase())
                       )
@@ -705,8 +1244,20 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                                 {new Date(s.createdAt).toLocaleString("ja-JP")}
                               </div>
                               <div className="text-[11px] text-neutral-400">
-                                {yen(s._totals.price)} / {s._totals.count} 品
+                                {yen(s._totals.listPrice)} / {s._totals.count} 品
+                                {s.taxMode && restaurant.takeout && `（${TAX_MODE_LABELS[s.taxMode]}）`}
+                                {s.boxes && ` ・詰め合わせ ${s.boxes.reduce((n, b) => n + b.copies, 0)}箱`}
+                                {s.split && ` ・割り勘 ${s.split.diners.length}人`}
                               </div>
+                              {s._savedPrice !== s._totals.listPrice && (
+                                <div className="text-[10px] text-neutral-500">
+                                  保存時 {yen(s._savedPrice)} →{" "}
+                                  <span className={s._totals.listPrice > s._savedPrice ? "text-red-400" : "text-[var(--accent-light)]"}>
+                                    {s._totals.listPrice > s._savedPrice ? "+" : "−"}
+                                    {yen(Math.abs(s._totals.listPrice - s._savedPrice))}
+                                  </span>
+                                </div>
+                              )}
                               {missingCount > 0 && (
                                 <div className="text-[10px] text-amber-400">
                                   ※ {missingCount} 品が現メニューに存在しません
@@ -720,6 +1271,16 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                               >
                                 読込
                               </button>
+                              {eras.length > 0 && (
+                                <button
+                                  className={`rounded px-2 py-1 transition ${
+                                    historySaveId === s.id ? "bg-[var(--accent)] text-white" : "bg-neutral-800 hover:bg-neutral-700"
+                                  }`}
+                                  onClick={() => setHistorySaveId(historySaveId === s.id ? null : s.id)}
+                                >
+                                  推移
+                                </button>
+                              )}
                               <button
                                 className="rounded bg-neutral-800 px-2 py-1 hover:bg-neutral-700 transition"
                                 onClick={() => deleteSave(s.id)}
@@ -728,6 +1289,12 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                               </button>
                             </div>
                           </div>
+                          {historySaveId === s.id && (
+                            <PriceHistoryChart
+                              points={eras.map((e) => ({ label: e.label, price: totalsAsOf(s, e.asOf).listPrice }))}
+                              yen={yen}
+                            />
+                          )}
                         </div>
                       );
                     });
@@ -757,6 +1324,18 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
           </div>
         </section>
 
+        {/* 入り数違いの箱がある店のみ：必要な個数から箱の組み合わせを選ぶ */}
+        {families.length > 0 && (
+          <PackPlanner
+            families={families}
+            onApply={(patch) => setQty((prev) => ({ ...prev, ...patch }))}
+            yen={yen}
+          />
+        )}
+
+        {/* 期限の書かれた品がある店のみ：買う日と渡す日から日持ちを確認 */}
+        {hasExpiry && <GiftPlanner cart={selectedItems} plan={giftPlan} setPlan={setGiftPlan} />}
+
         {/* カテゴリタブ */}
         <section className="mt-6">
           <div className="flex gap-1 overflow-x-auto pb-2 scrollbar-hide">
@@ -815,6 +1394,8 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                     activeTag={activeTag}
                     setActiveTag={setActiveTag}
                     remainingBudget={remainingBudget}
+                    isUnavailable={isUnavailable}
+                    savingsOf={(it) => setSavings(it, itemById)}
                   />
                 ) : (
                   <>
@@ -851,6 +1432,8 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                           const q = getQty(it.id);
                           const isOn = q > 0;
                           const isOver = !isOn && remainingBudget !== undefined && remainingBudget >= 0 && it.price > remainingBudget;
+                          const unavailable = isUnavailable(it);
+                          const availability = formatAvailability(it);
                           const activeAddons = (addonSelections[it.id] ?? [])
                             .map((aid) => items.find((a) => a.id === aid))
                             .filter(Boolean) as Item[];
@@ -863,7 +1446,7 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                                   : isOver
                                   ? "border-red-500/50 bg-red-950/20 hover:border-red-400"
                                   : "border-neutral-500/50 bg-neutral-800/50 hover:border-neutral-400"
-                              }`}
+                              } ${unavailable ? "opacity-40" : ""}`}
                               onClick={() => isOn ? setItemQty(it.id, 0) : addOne(it.id)}
                             >
                               {it.image && (
@@ -881,9 +1464,19 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                                 {it.period && (
                                   <div className="text-[10px] text-neutral-500">{it.period}</div>
                                 )}
+                                {it.pack && it.pack.pieces > 1 && (
+                                  <div className="text-[10px] text-neutral-500">
+                                    1{it.pack.unit ?? "個"}あたり {yen(Math.round(perPiece(it)))}
+                                  </div>
+                                )}
                                 {it.expiry && (
                                   <div className="text-[10px] text-neutral-600">{it.expiry}</div>
                                 )}
+                                {availability && (
+                                  <div className={`text-[10px] ${unavailable ? "text-red-400" : "text-neutral-500"}`}>
+                                    {availability}{unavailable && "（この時間は注文不可）"}
+                                  </div>
+                                )}
                                 {activeAddons.length > 0 ? (
                                   <div className="mt-1 text-sm font-semibold leading-snug">
                                     <span className="text-neutral-400">{yen(it.price)}</span>
@@ -1019,6 +1612,49 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                 </div>
               ) : (
                 <div className="space-y-2">
+                  {setPlan && (
+                    <div className="flex items-center gap-2 rounded-lg border border-[var(--accent-50)] bg-[var(--accent-10)] px-3 py-2 text-xs text-[var(--accent-light)]">
+                      <span className="flex-1">
+                        💡 {setPlan.sets.length > 0 ? "セットにまとめると" : "単品で頼むと"}{" "}
+                        {yen(setPlan.before - setPlan.after)} 安くなります
+                        {setPlan.sets.length > 0 &&
+                          `：${setPlan.sets
+                            .map((s) => `${itemById.get(s.itemId)?.name ?? s.itemId}${s.qty > 1 ? `×${s.qty}` : ""}`)
+                            .join("、")}`}
+                      </span>
+                      <button
+                        className="shrink-0 rounded-lg bg-[var(--accent)] px-2.5 py-1 text-white hover:opacity-90 transition"
+                        onClick={(e) => { e.stopPropagation(); setQty(setPlan.qty); }}
+                      >
+                        {setPlan.sets.length > 0 ? "まとめる" : "組み替える"}
+                      </button>
+                    </div>
+                  )}
+                  {orderAt && selectedItems.some(isUnavailable) && (
+                    <div className="rounded-lg border border-amber-700/60 bg-amber-950/30 px-3 py-2 text-xs text-amber-300">
+                      ⚠ {formatOrderTime(orderAt)} には注文できない品があります：
+                      {selectedItems
+                        .filter(isUnavailable)
+                        .map((it) => `${it.name}（${formatAvailability(it)}）`)
+                        .join("、")}
+                    </div>
+                  )}
+                  {saleDate && selectedItems.some(isOffSeason) && (
+                    <div className="rounded-lg border border-amber-700/60 bg-amber-950/30 px-3 py-2 text-xs text-amber-300">
+                      ⚠ {saleDate.replace(/-/g, "/")} は販売期間外の品があります：
+                      {selectedItems
+                        .filter(isOffSeason)
+                        .map((it) => `${it.name}（${it.period}）`)
+                        .join("、")}
+                    </div>
+                  )}
+                  {giftPlan && expiryCheck && expiryCheck.expiring.length > 0 && (
+                    <div className="rounded-lg border border-amber-700/60 bg-amber-950/30 px-3 py-2 text-xs text-amber-300">
+                      ⚠ {formatDay(giftPlan.purchaseDate)} に買うと {formatDay(giftPlan.handoutDate)} までにもたない品があります：
+                      {expiryCheck.expiring.map((x) => `${x.item.name}（${x.item.expiry}）`).join("、")}
+                      {expiryCheck.earliestPurchase && `。${formatDay(expiryCheck.earliestPurchase)}以降に買えば間に合います`}
+                    </div>
+                  )}
                   {selectedItems.map((it) => {
                     const q = getQty(it.id);
                     const selectedAddons = (addonSelections[it.id] ?? [])
@@ -1032,6 +1668,9 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                           {selectedAddons.map((a) => (
                             <span key={a.id} className="text-[10px] text-amber-400 shrink-0">+{a.name}</span>
                           ))}
+                          {assignmentLabel(split, it.id) && (
+                            <span className="text-[10px] text-sky-400 shrink-0">{assignmentLabel(split, it.id)}</span>
+                          )}
                           {it.tags && it.tags.map((t) => (
                             <button
                               key={t}
@@ -1074,6 +1713,39 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                       </div>
                     );
                   })}
+                  {/* 割引（適用されたクーポンごと）と税の内訳 */}
+                  <div className="border-t border-neutral-800 pt-2 space-y-1">
+                    {totals.discounts.length > 0 && (
+                      <>
+                        <div className="flex items-center justify-between text-xs text-neutral-400">
+                          <span>小計（定価）</span>
+                          <span className="tabular-nums pr-6">{yen(totals.listPrice)}</span>
+                        </div>
+                        {totals.discounts.map((d) => (
+                          <div key={d.couponId} className="flex items-center justify-between text-xs text-amber-400">
+                            <span>
+                              割引：{d.name}
+                              {d.uses > 1 && <span className="text-neutral-500"> ×{d.uses}</span>}
+                            </span>
+                            <span className="tabular-nums pr-6">−{yen(d.amount)}</span>
+                          </div>
+                        ))}
+                      </>
+                    )}
+                    <div className="flex items-center justify-between text-sm font-semibold">
+                      <span>
+                        合計
+                        {restaurant.takeout && (
+                          <span className="ml-1 text-xs font-normal text-neutral-500">（{TAX_MODE_LABELS[taxMode]}）</span>
+                        )}
+                      </span>
+                      <span className="tabular-nums pr-6">{yen(totals.price)}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-neutral-500">
+                      <span>うち税抜 {yen(totals.base)}</span>
+                      <span className="tabular-nums pr-6">消費税（{totals.taxRate}%）{yen(totals.tax)}</span>
+                    </div>
+                  </div>
                 </div>
               )}
             </div>
@@ -1107,6 +1779,9 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
                   {yen(overAmount)} オーバー
                 </span>
               )}
+              {totals.discounts.length > 0 && (
+                <span className="text-xs text-neutral-500 line-through">{yen(totals.listPrice)}</span>
+              )}
               <span className={`text-xl font-bold ${budgetOk ? "text-white" : "text-red-400"}`}>
                 {yen(totals.price)}
               </span>
@@ -1118,6 +1793,57 @@ export default function Simulator({ restaurant, onBack, initialQty, initialCloud
   );
 }
 
+// ============================================================
+// 価格推移グラフ（保存データの合計を価格改定ごとに並べる）
+// ============================================================
+
+function PriceHistoryChart({
+  points,
+  yen,
+}: {
+  points: { label: string; price: number }[];
+  yen: (n: number) => string;
+}) {
+  const W = 240;
+  const H = 64;
+  const prices = points.map((p) => p.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const x = (i: number) => (points.length === 1 ? W / 2 : 8 + (i * (W - 16)) / (points.length - 1));
+  const y = (v: number) => (max === min ? H / 2 : 8 + ((max - v) * (H - 16)) / (max - min));
+  return (
+    <div className="mt-2 border-t border-neutral-800 pt-2">
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-16">
+        <polyline
+          points={points.map((p, i) => `${x(i)},${y(p.price)}`).join(" ")}
+          fill="none"
+          stroke="var(--accent)"
+          strokeWidth={2}
+        />
+        {points.map((p, i) => (
+          <circle key={p.label} cx={x(i)} cy={y(p.price)} r={3} fill="var(--accent)" />
+        ))}
+      </svg>
+      <div className="mt-1 flex justify-between gap-2 text-[10px] text-neutral-500">
+        {points.map((p, i) => (
+          <div key={p.label} className="text-center">
+            <div>{p.label}</div>
+            <div className="text-neutral-300 tabular-nums">
+              {yen(p.price)}
+              {i > 0 && p.price !== points[i - 1].price && (
+                <span className={p.price > points[i - 1].price ? "ml-1 text-red-400" : "ml-1 text-[var(--accent-light)]"}>
+                  {p.price > points[i - 1].price ? "+" : "−"}
+                  {Math.abs(p.price - points[i - 1].price)}
+                </span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ============================================================
 // セット表形式コンポーネント
 // ============================================================
@@ -1135,6 +1861,8 @@ function SetTableGrid({
   activeTag,
   setActiveTag,
   remainingBudget,
+  isUnavailable,
+  savingsOf,
 }: {
   config: SetTableConfig;
   group: Item[];
@@ -1148,6 +1876,8 @@ function SetTableGrid({
   activeTag: string | null;
   setActiveTag: (tag: string | null) => void;
   remainingBudget?: number;
+  isUnavailable: (it: Item) => boolean; // 注文日時に販売していない品
+  savingsOf: (it: Item) => number | null; // 単品で頼む場合よりいくら安いか（components のあるセットのみ）
 }) {
   const lookup: Record<string, Record<string, Item>> = {};
   for (const it of group) {
@@ -1197,7 +1927,7 @@ function SetTableGrid({
                       key={ct}
                       className={`px-2 py-2 border-r border-neutral-800 last:border-r-0 transition cursor-pointer ${
                         isOn ? "bg-[var(--accent-20)]" : isOver ? "bg-red-950/20 hover:bg-red-950/40" : "hover:bg-neutral-800/50"
-                      }`}
+                      } ${isUnavailable(it) ? "opacity-40" : ""}`}
                       onClick={() => isOn ? setItemQty(it.id, 0) : addOne(it.id)}
                     >
                       <div className="flex flex-col items-center gap-1">
@@ -1212,6 +1942,7 @@ function SetTableGrid({
                         <span className={`text-xs font-semibold ${isOn ? "text-[var(--accent-light)]" : isOver ? "text-red-400" : "text-neutral-200"}`}>
                           {yen(it.price)}
                         </span>
+                        <SavingsNote savings={savingsOf(it)} yen={yen} />
                         <div
                           className="flex items-center gap-1"
                           onClick={(e) => e.stopPropagation()}
@@ -1271,7 +2002,7 @@ function SetTableGrid({
                       : isOver
                       ? "border-red-500/50 bg-red-950/20 hover:border-red-400"
                       : "border-neutral-500/50 bg-neutral-800/50 hover:border-neutral-400"
-                  }`}
+                  } ${isUnavailable(it) ? "opacity-40" : ""}`}
                   onClick={() => isOn ? setItemQty(it.id, 0) : addOne(it.id)}
                 >
                   {it.image && (
@@ -1289,6 +2020,7 @@ function SetTableGrid({
                     <div className="font-medium text-sm leading-snug">{it.name}</div>
                     <div className={`shrink-0 text-sm font-semibold ${isOn ? "text-[var(--accent-light)]" : isOver ? "text-red-400" : "text-neutral-200"}`}>{yen(it.price)}</div>
                   </div>
+                  <SavingsNote savings={savingsOf(it)} yen={yen} />
                   <div
                     className="mt-2 flex items-center gap-2"
                     onClick={(e) => e.stopPropagation()}
@@ -1329,3 +2061,12 @@ function SetTableGrid({
   );
 }
 
+// セットの単品合計との差額（安ければ「お得」、高ければ注意として出す）
+function SavingsNote({ savings, yen }: { savings: number | null; yen: (n: number) => string }) {
+  if (savings === null || savings === 0) return null;
+  return savings > 0 ? (
+    <span className="text-[10px] text-amber-400">単品より{yen(savings)}お得</span>
+  ) : (
+    <span className="text-[10px] text-neutral-500">単品より{yen(-savings)}高い</span>
+  );
+}
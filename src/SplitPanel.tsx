@@ -0,0 +1,222 @@
+import { useState } from "react";
+import type { Item, BillSplit, SplitRounding } from "./types";
+import type { SplitLine } from "./split";
+import { splitBill, lineWeights, newDiner } from "./split";
+
+// ============================================================
+// 割り勘モード（人を登録し、カートの各品を誰が食べたか割り当てる）
+// ============================================================
+
+const ROUNDINGS: SplitRounding[] = [1, 10, 100];
+
+export default function SplitPanel({
+  items,
+  qty,
+  lines,
+  total,
+  split,
+  setSplit,
+  yen,
+}: {
+  items: Item[];
+  qty: Record<string, number>;
+  lines: SplitLine[];
+  total: number; // 割引後の支払額
+  split: BillSplit;
+  setSplit: (v: BillSplit | ((p: BillSplit) => BillSplit)) => void;
+  yen: (n: number) => string;
+}) {
+  const [copied, setCopied] = useState(false);
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const result = splitBill(lines, total, split);
+
+  const rename = (id: string, name: string) =>
+    setSplit((p) => ({ ...p, diners: p.diners.map((d) => (d.id === id ? { ...d, name } : d)) }));
+  const addDiner = () =>
+    setSplit((p) => ({ ...p, diners: [...p.diners, newDiner(`${p.diners.length + 1}人目`)] }));
+  const removeDiner = (id: string) =>
+    setSplit((p) => {
+      const diners = p.diners.filter((d) => d.id !== id);
+      return {
+        ...p,
+        diners,
+        organizerId: p.organizerId === id ? diners[0].id : p.organizerId,
+        shares: Object.fromEntries(
+          Object.entries(p.shares).map(([itemId, w]) => [itemId, Object.fromEntries(Object.entries(w).filter(([d]) => d !== id))])
+        ),
+      };
+    });
+  const setWeight = (itemId: string, dinerId: string, w: number) =>
+    setSplit((p) => ({ ...p, shares: { ...p.shares, [itemId]: { ...p.shares[itemId], [dinerId]: w } } }));
+  const resetLine = (itemId: string) =>
+    setSplit((p) => {
+      const shares = { ...p.shares };
+      delete shares[itemId];
+      return { ...p, shares };
+    });
+
+  const copyResult = () => {
+    const text = result.map((r) => `${r.diner.name}：${yen(r.amount)}`).join("\n") + `\n合計：${yen(total)}`;
+    navigator.clipboard.writeText(text).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  return (
+    <div className="mt-4 space-y-4">
+      {/* 参加者 */}
+      <div className="rounded-2xl border border-neutral-800 p-4">
+        <div className="mb-2 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">参加者</h2>
+          <span className="text-xs text-neutral-500">◉ = 幹事（端数を負担）</span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {split.diners.map((d) => (
+            <div key={d.id} className="flex items-center gap-1 rounded-lg bg-neutral-900 px-2 py-1">
+              <button
+                className={split.organizerId === d.id ? "text-[var(--accent-light)]" : "text-neutral-600 hover:text-neutral-400"}
+                onClick={() => setSplit((p) => ({ ...p, organizerId: d.id }))}
+                aria-label="幹事にする"
+              >
+                {split.organizerId === d.id ? "◉" : "○"}
+              </button>
+              <input
+                className="w-20 bg-transparent text-sm"
+                value={d.name}
+                onChange={(e) => rename(d.id, e.target.value)}
+              />
+              {split.diners.length > 1 && (
+                <button
+                  className="text-xs text-neutral-500 hover:text-red-400 transition"
+                  onClick={() => removeDiner(d.id)}
+                  aria-label="削除"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            className="rounded-lg bg-neutral-800 px-3 py-1 text-sm hover:bg-neutral-700 transition"
+            onClick={addDiner}
+          >
+            ＋ 追加
+          </button>
+        </div>
+      </div>
+
+      {/* 品ごとの割り当て */}
+      <div className="overflow-x-auto rounded-2xl border border-neutral-800 p-4">
+        <h2 className="text-lg font-semibold">誰が食べたか</h2>
+        <p className="mt-1 text-xs text-neutral-500">
+          数字は分ける割合です（例: 2人で1皿なら 1・1、2:1 で分けるなら 2・1）。空欄の品は全員で均等に分けます
+        </p>
+        {lines.length === 0 ? (
+          <div className="py-4 text-center text-sm text-neutral-500">カートが空です</div>
+        ) : (
+          <table className="mt-3 w-full text-sm">
+            <thead>
+              <tr className="text-xs text-neutral-500">
+                <th className="text-left font-normal">品</th>
+                <th className="text-right font-normal">金額</th>
+                {split.diners.map((d) => (
+                  <th key={d.id} className="px-1 font-normal">{d.name}</th>
+                ))}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((line) => {
+                const given = split.shares[line.itemId];
+                const weights = lineWeights(split, line.itemId);
+                return (
+                  <tr key={line.itemId} className="border-t border-neutral-800">
+                    <td className="py-1 text-neutral-200">
+                      {byId.get(line.itemId)?.name ?? line.itemId}
+                      {qty[line.itemId] > 1 && <span className="ml-1 text-neutral-500">×{qty[line.itemId]}</span>}
+                    </td>
+                    <td className="text-right tabular-nums">{yen(line.amount)}</td>
+                    {split.diners.map((d) => (
+                      <td key={d.id} className="px-1 text-center">
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          className="w-12 rounded bg-neutral-900 px-1 py-0.5 text-right text-xs"
+                          value={given?.[d.id] || ""}
+                          placeholder={given ? "0" : String(weights.get(d.id) ?? "")}
+                          onChange={(e) => setWeight(line.itemId, d.id, Math.max(0, Number(e.target.value) || 0))}
+                        />
+                      </td>
+                    ))}
+                    <td className="text-right">
+                      {given && (
+                        <button
+                          className="text-xs text-neutral-500 hover:text-neutral-300 transition"
+                          onClick={() => resetLine(line.itemId)}
+                        >
+                          全員で
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* 1人あたり */}
+      <div className="rounded-2xl border border-neutral-800 p-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold">1人あたり</h2>
+          <div className="flex gap-1 text-xs">
+            {ROUNDINGS.map((r) => (
+              <button
+                key={r}
+                className={`rounded-lg px-2.5 py-1 transition ${
+                  split.rounding === r ? "bg-[var(--accent)] text-white" : "bg-neutral-800 text-neutral-300 hover:bg-neutral-700"
+                }`}
+                onClick={() => setSplit((p) => ({ ...p, rounding: r }))}
+              >
+                {r}円単位
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="mt-3 space-y-1">
+          {result.map((r) => {
+            const diff = r.amount - Math.round(r.exact);
+            return (
+              <div key={r.diner.id} className="flex items-baseline justify-between text-sm">
+                <span className="text-neutral-300">
+                  {r.diner.name}
+                  {r.diner.id === split.organizerId && <span className="ml-1 text-xs text-neutral-500">（幹事）</span>}
+                </span>
+                <span>
+                  {diff !== 0 && (
+                    <span className="mr-2 text-xs text-neutral-500">
+                      {yen(Math.round(r.exact))}から{diff > 0 ? "+" : "−"}{yen(Math.abs(diff))}
+                    </span>
+                  )}
+                  <span className="text-lg font-semibold tabular-nums">{yen(r.amount)}</span>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+        <div className="mt-3 flex items-center justify-between border-t border-neutral-800 pt-2 text-sm">
+          <span className="text-neutral-400">合計 {yen(total)}</span>
+          <button
+            className="rounded-lg bg-neutral-800 px-3 py-1.5 text-xs hover:bg-neutral-700 transition"
+            onClick={copyResult}
+          >
+            {copied ? "コピーしました" : "結果をコピー"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
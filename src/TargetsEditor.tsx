@@ -0,0 +1,117 @@
+import { useState } from "react";
+import type { Targets } from "./types";
+
+// ============================================================
+// 予算以外の目標（最低金額・品数下限・カテゴリ別の金額上限・タグの下限）の編集
+// ============================================================
+
+type Draft = "minSpend" | "minItems" | "category" | "tag";
+
+export default function TargetsEditor({
+  targets,
+  setTargets,
+  categories,
+  tags,
+  onSeedSearch,
+}: {
+  targets: Targets;
+  setTargets: (v: Targets | ((p: Targets) => Targets)) => void;
+  categories: string[];
+  tags: string[];
+  onSeedSearch: () => void; // 目標から予算探索の条件を作って探索画面へ
+}) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [key, setKey] = useState("");
+  const [value, setValue] = useState("");
+
+  const close = () => {
+    setDraft(null);
+    setKey("");
+    setValue("");
+  };
+  const add = () => {
+    const n = Math.floor(Number(value.replace(/,/g, "")));
+    if (!Number.isFinite(n) || n <= 0) return;
+    if (draft === "minSpend") setTargets((p) => ({ ...p, minSpend: n }));
+    if (draft === "minItems") setTargets((p) => ({ ...p, minItems: n }));
+    if (draft === "category" && key) setTargets((p) => ({ ...p, categoryBudgets: { ...p.categoryBudgets, [key]: n } }));
+    if (draft === "tag" && key) setTargets((p) => ({ ...p, tagMins: { ...p.tagMins, [key]: n } }));
+    close();
+  };
+  const hasGoals =
+    targets.minSpend !== undefined ||
+    targets.minItems !== undefined ||
+    Object.keys(targets.categoryBudgets ?? {}).length > 0 ||
+    Object.keys(targets.tagMins ?? {}).length > 0;
+
+  return (
+    <div className="mt-3 text-sm">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="shrink-0 text-neutral-400">目標</span>
+        {(
+          [
+            ["minSpend", "最低金額"],
+            ["minItems", "品数"],
+            ["category", "カテゴリ上限"],
+            ...(tags.length > 0 ? [["tag", "タグ"]] : []),
+          ] as [Draft, string][]
+        ).map(([d, label]) => (
+          <button
+            key={d}
+            className={`rounded-lg px-2 py-1 text-xs transition ${
+              draft === d ? "bg-[var(--accent)] text-white" : "bg-neutral-800 text-neutral-300 hover:bg-neutral-700"
+            }`}
+            onClick={() => (draft === d ? close() : setDraft(d))}
+          >
+            ＋{label}
+          </button>
+        ))}
+      </div>
+
+      {draft && (
+        <div className="mt-2 flex items-center gap-1.5 text-xs">
+          {draft === "category" && (
+            <select className="rounded-lg bg-neutral-900 px-2 py-1" value={key} onChange={(e) => setKey(e.target.value)}>
+              <option value="">カテゴリ</option>
+              {categories.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+          )}
+          {draft === "tag" && (
+            <select className="rounded-lg bg-neutral-900 px-2 py-1" value={key} onChange={(e) => setKey(e.target.value)}>
+              <option value="">タグ</option>
+              {tags.map((t) => (
+                <option key={t} value={t}>#{t}</option>
+              ))}
+            </select>
+          )}
+          <input
+            type="text"
+            inputMode="numeric"
+            className="w-20 rounded-lg bg-neutral-900 px-2 py-1 text-right"
+            value={value}
+            placeholder={draft === "minSpend" ? "1,000" : draft === "category" ? "300" : "3"}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && add()}
+          />
+          <span className="text-neutral-400">
+            {draft === "minSpend" ? "円以上" : draft === "category" ? "円まで" : "品以上"}
+          </span>
+          <button className="rounded-lg bg-[var(--accent)] px-2 py-1 text-white hover:opacity-90 transition" onClick={add}>
+            追加
+          </button>
+        </div>
+      )}
+
+      {hasGoals && (
+        <button
+          className="mt-2 text-xs text-[var(--accent-light)] hover:underline"
+          onClick={onSeedSearch}
+        >
+          この目標で予算探索 →
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useState, useRef, useEffect } from "react";
+import type { Restaurant, WeeklyPlanConfig, WeeklyPlanDayResult, SavedWeeklyPlan } from "./types";
+import {
+  defaultWeeklyConfig,
+  isSavedWeeklyPlan,
+  isWeeklyPlanConfig,
+  isWeeklyPlanResult,
+  mondayOf,
+} from "./weeklyPlan";
+import { startWeekPlan } from "./budgetSearchClient";
+import { usePersistentState } from "./usePersistentState";
+import { addDays, formatDay } from "./period";
+
+// ============================================================
+// 週間ランチ計画（平日5日分の組み合わせを週の予算内で組む）
+// ============================================================
+
+const KEY = "gaisyoku-sim-v3:weekly";
+const MAX_SAVES = 50;
+
+const yen = (n: number) =>
+  n.toLocaleString("ja-JP", { style: "currency", currency: "JPY", maximumFractionDigits: 0 });
+
+export default function WeeklyPlanner({ restaurants, onBack }: { restaurants: Restaurant[]; onBack: () => void }) {
+  const [config, setConfig] = usePersistentState<WeeklyPlanConfig>(
+    `${KEY}:config`,
+    defaultWeeklyConfig(restaurants[0].id),
+    isWeeklyPlanConfig
+  );
+  const [plan, setPlan] = usePersistentState<WeeklyPlanDayResult[] | null>(`${KEY}:plan`, null, isWeeklyPlanResult);
+  const [saves, setSaves] = usePersistentState<SavedWeeklyPlan[]>(`${KEY}:saves`, [], Array.isArray);
+  const [saveName, setSaveName] = useState("");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const planRef = useRef<{ cancel: () => void } | null>(null); // 実行中の計画
+
+  // アンマウント時は実行中の計画（ワーカー）を破棄する
+  useEffect(() => () => planRef.current?.cancel(), []);
+
+  const byId = new Map(restaurants.map((r) => [r.id, r]));
+  const nameOf = (restaurantId: string, itemId: string) =>
+    byId.get(restaurantId)?.items.find((it) => it.id === itemId)?.name ?? itemId;
+  // 以前の版で検証せずに取り込んだ壊れた保存データは一覧に出さない（読み込むと計画画面が落ちるため）
+  const validSaves = saves.filter(isSavedWeeklyPlan);
+  const weekTotal = plan?.reduce((s, d) => s + d.total, 0) ?? 0;
+
+  const update = (patch: Partial<WeeklyPlanConfig>) => setConfig((p) => ({ ...p, ...patch }));
+  const updateDay = (i: number, patch: Partial<WeeklyPlanConfig["days"][number]>) =>
+    setConfig((p) => ({ ...p, days: p.days.map((d, j) => (j === i ? { ...d, ...patch } : d)) }));
+  const run = (random: boolean) => {
+    planRef.current?.cancel();
+    setError(null);
+    setRunning(true);
+    planRef.current = startWeekPlan(config, restaurants, random, {
+      onDone: (days) => {
+        planRef.current = null;
+        setRunning(false);
+        setPlan(days);
+      },
+      onError: (message) => {
+        planRef.current = null;
+        setRunning(false);
+        setError(message);
+      },
+    });
+  };
+  const cancel = () => {
+    planRef.current?.cancel();
+    planRef.current = null;
+    setRunning(false);
+  };
+  const togglePin = (i: number) => {
+    const day = config.days[i];
+    if (day.pinned) updateDay(i, { pinned: undefined });
+    else if (plan?.[i] && Object.keys(plan[i].qty).length > 0) updateDay(i, { pinned: plan[i].qty });
+  };
+
+  const save = () => {
+    if (!plan) return;
+    const saved: SavedWeeklyPlan = {
+      id: `week_${Date.now()}`,
+      name: saveName.trim() || new Date().toLocaleString("ja-JP"),
+      createdAt: Date.now(),
+      config,
+      days: plan,
+    };
+    setSaves((prev) => [...prev.slice(-(MAX_SAVES - 1)), saved]);
+    setSaveName("");
+  };
+  const load = (s: SavedWeeklyPlan) => {
+    setConfig(s.config);
+    setPlan(s.days);
+  };
+  const exportSaves = () => {
+    const blob = new Blob([JSON.stringify(saves, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `weekly_saves_${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+  const importSaves = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const parsed = JSON.parse(String(reader.result));
+        if (!Array.isArray(parsed)) throw new Error("配列ではありません");
+        const valid = parsed.filter(isSavedWeeklyPlan) as SavedWeeklyPlan[];
+        setSaves((prev) => {
+          const existingIds = new Set(prev.map((s) => s.id));
+          return [...prev, ...valid.filter((s) => !existingIds.has(s.id))].slice(-MAX_SAVES);
+        });
+      } catch (e) {
+        alert("保存データの読み込みに失敗しました\n" + (e as Error).message);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-neutral-950 text-neutral-100">
+      <div className="mx-auto max-w-4xl px-4 py-6">
+        <header className="flex items-center gap-4">
+          <button
+            className="rounded-lg bg-neutral-800 px-3 py-1.5 text-sm hover:bg-neutral-700 transition"
+            onClick={onBack}
+          >
+            ← 店舗選択
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold">週間ランチ計画</h1>
+            <p className="text-sm text-neutral-400">平日5日分を週の予算内で組みます</p>
+          </div>
+        </header>
+
+        {/* 条件 */}
+        <section className="mt-4 rounded-2xl border border-neutral-800 p-4 text-sm">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <label className="flex items-center gap-1.5">
+              <span className="text-neutral-400">週の予算</span>
+              <input
+                type="text"
+                inputMode="numeric"
+                className="w-24 rounded-lg bg-neutral-900 px-2 py-1 text-right"
+                value={config.weeklyBudget.toLocaleString("ja-JP")}
+                onChange={(e) => {
+                  const n = Number(e.target.value.replace(/,/g, ""));
+                  if (Number.isFinite(n) && n >= 0) update({ weeklyBudget: n });
+                }}
+              />
+              <span className="text-neutral-400">円</span>
+            </label>
+            <label className="flex items-center gap-1.5">
+              <span className="text-neutral-400">1日</span>
+              <select
+                className="rounded-lg bg-neutral-900 px-2 py-1"
+                value={config.maxItems}
+                onChange={(e) => update({ maxItems: Number(e.target.value) })}
+              >
+                {[1, 2, 3, 4, 5].map((n) => (
+                  <option key={n} value={n}>{n}品まで</option>
+                ))}
+              </select>
+            </label>
+            <select
+              className="rounded-lg bg-neutral-900 px-2 py-1"
+              value={config.mode}
+              onChange={(e) => update({ mode: e.target.value as WeeklyPlanConfig["mode"] })}
+            >
+              <option value="maximize-price">予算を使い切る</option>
+              <option value="maximize-count">品数を多く</option>
+            </select>
+            <label className="flex items-center gap-1.5">
+              <span className="text-neutral-400">同じ品は</span>
+              <select
+                className="rounded-lg bg-neutral-900 px-2 py-1"
+                value={config.noRepeatDays}
+                onChange={(e) => update({ noRepeatDays: Number(e.target.value) })}
+              >
+                <option value={0}>続いてもよい</option>
+                {[1, 2, 3, 4].map((n) => (
+                  <option key={n} value={n}>{n}日あける</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1.5 text-neutral-300">
+              <input
+                type="checkbox"
+                checked={config.rotateCategories}
+                onChange={(e) => update({ rotateCategories: e.target.checked })}
+              />
+              メインのカテゴリを日替わりにする
+            </label>
+            <label className="flex items-center gap-1.5">
+              <span className="text-neutral-400">週の月曜</span>
+              <input
+                type="date"
+                className="rounded-lg bg-neutral-900 px-2 py-1"
+                value={config.weekStart ? mondayOf(config.weekStart) : ""}
+                onChange={(e) => update({ weekStart: e.target.value ? mondayOf(e.target.value) : undefined })}
+              />
+            </label>
+          </div>
+          <div className="mt-3 flex gap-2">
+            {running ? (
+              <button
+                className="rounded-lg bg-neutral-800 px-4 py-1.5 font-medium hover:bg-neutral-700 transition"
+                onClick={cancel}
+              >
+                計画中…（中止）
+              </button>
+            ) : (
+              <>
+                <button
+                  className="rounded-lg bg-[var(--accent,#059669)] px-4 py-1.5 font-medium text-white hover:opacity-90 transition"
+                  onClick={() => run(false)}
+                >
+                  計画する
+                </button>
+                <button
+                  className="rounded-lg bg-neutral-800 px-3 py-1.5 hover:bg-neutral-700 transition"
+                  onClick={() => run(true)}
+                >
+                  別の案
+                </button>
+              </>
+            )}
+          </div>
+          {error && <p className="mt-2 text-xs text-red-400">✗ 計画に失敗しました（{error}）</p>}
+        </section>
+
+        {/* 日ごとの計画 */}
+        <section className="mt-4 space-y-2">
+          {config.days.map((day, i) => {
+            const result = plan?.[i];
+            const found = result && Object.keys(result.qty).length > 0;
+            return (
+              <div key={day.label} className="rounded-2xl border border-neutral-800 p-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="w-16 font-semibold">
+                    {config.weekStart ? formatDay(addDays(mondayOf(config.weekStart), i)) : `${day.label}曜`}
+                  </span>
+                  <select
+                    className="rounded-lg bg-neutral-900 px-2 py-1 disabled:opacity-50"
+                    value={day.restaurantId}
+                    disabled={!!day.pinned}
+                    onChange={(e) => updateDay(i, { restaurantId: e.target.value })}
+                  >
+                    {restaurants.map((r) => (
+                      <option key={r.id} value={r.id}>{r.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    className={`rounded-lg px-2 py-1 text-xs transition disabled:opacity-40 ${
+                      day.pinned ? "bg-amber-700 text-white" : "bg-neutral-800 text-neutral-300 hover:bg-neutral-700"
+                    }`}
+                    disabled={!day.pinned && !found}
+                    onClick={() => togglePin(i)}
+                  >
+                    {day.pinned ? "📌 固定中" : "固定"}
+                  </button>
+                  {result && <span className="ml-auto font-semibold tabular-nums">{yen(result.total)}</span>}
+                </div>
+                {result && result.restaurantId === day.restaurantId && (
+                  <div className="mt-1 text-xs text-neutral-300">
+                    {found
+                      ? Object.entries(result.qty)
+                          .map(([id, q]) => `${nameOf(result.restaurantId, id)}${q > 1 ? `×${q}` : ""}`)
+                          .join("、")
+                      : null}
+                    {result.notes.length > 0 && <span className="ml-2 text-amber-400">※{result.notes.join("・")}</span>}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </section>
+
+        {/* 週の合計・保存 */}
+        {plan && (
+          <section className="mt-4 rounded-2xl border border-neutral-800 p-4 text-sm">
+            <div className="flex items-baseline justify-between">
+              <span className="text-neutral-400">週の合計</span>
+              <span>
+                <span className={`text-2xl font-bold ${weekTotal > config.weeklyBudget ? "text-red-400" : ""}`}>{yen(weekTotal)}</span>
+                <span className="ml-2 text-xs text-neutral-500">
+                  / {yen(config.weeklyBudget)}（{weekTotal <= config.weeklyBudget ? `残り ${yen(config.weeklyBudget - weekTotal)}` : `${yen(weekTotal - config.weeklyBudget)} 超過`}）
+                </span>
+              </span>
+            </div>
+            <div className="mt-3 flex gap-2">
+              <input
+                className="min-w-0 flex-1 rounded-lg bg-neutral-900 px-3 py-1.5 placeholder-neutral-500"
+                placeholder="保存名（例: 10月第3週）"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+              />
+              <button
+                className="rounded-lg bg-emerald-600 px-3 py-1.5 text-white hover:opacity-90 transition"
+                onClick={save}
+              >
+                保存
+              </button>
+            </div>
+          </section>
+        )}
+
+        {/* 保存した計画 */}
+        <section className="mt-4 rounded-2xl border border-neutral-800 p-4 text-sm">
+          <h2 className="text-lg font-semibold">保存した計画</h2>
+          {validSaves.length === 0 ? (
+            <p className="mt-2 text-xs text-neutral-500">まだありません</p>
+          ) : (
+            <div className="mt-2 space-y-1">
+              {[...validSaves].reverse().map((s) => (
+                <div key={s.id} className="flex items-center gap-2">
+                  <span className="flex-1 truncate">{s.name}</span>
+                  <span className="text-xs text-neutral-400 tabular-nums">{yen(s.days.reduce((n, d) => n + d.total, 0))}</span>
+                  <button
+                    className="rounded bg-neutral-800 px-2 py-0.5 text-xs hover:bg-neutral-700 transition"
+                    onClick={() => load(s)}
+                  >
+                    読込
+                  </button>
+                  <button
+                    className="text-xs text-neutral-500 hover:text-red-400 transition"
+                    onClick={() => setSaves((prev) => prev.filter((x) => x.id !== s.id))}
+                  >
+                    削除
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="mt-2 flex gap-2 border-t border-neutral-800 pt-2 text-xs">
+            <button
+              className="rounded-lg bg-neutral-800 px-2 py-1 hover:bg-neutral-700 transition disabled:opacity-40"
+              disabled={saves.length === 0}
+              onClick={exportSaves}
+            >
+              エクスポート
+            </button>
+            <label className="cursor-pointer rounded-lg bg-neutral-800 px-2 py-1 hover:bg-neutral-700 transition">
+              インポート
+              <input
+                type="file"
+                accept="application/json"
+                className="hidden"
+                onChange={(e) => e.target.files && importSaves(e.target.files[0])}
+              />
+            </label>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
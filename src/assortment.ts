@@ -0,0 +1,37 @@
+import type { Item, AssortmentConfig, AssortmentBox } from "./types";
+
+// ============================================================
+// 詰め合わせ（箱詰め）の計算：純関数
+// ============================================================
+
+// 箱に詰められる品（入り数違いの箱売り品は1個売りのものだけ）
+export function boxableItems(items: Item[], config: AssortmentConfig): Item[] {
+  return items.filter(
+    (it) =>
+      config.categories.includes(it.category) &&
+      !config.excludedIds?.includes(it.id) &&
+      (!it.pack || it.pack.pieces === 1)
+  );
+}
+
+export const filledSlots = (box: AssortmentBox) => Object.values(box.items).reduce((s, n) => s + n, 0);
+
+// 1箱の金額（箱代は含まない）
+export const boxPrice = (box: AssortmentBox, byId: Map<string, Item>) =>
+  Object.entries(box.items).reduce((s, [id, n]) => s + (byId.get(id)?.price ?? 0) * n, 0);
+
+// 全箱の中身を合計した数量（カート・SavedCombo.qty 用）
+export function boxesToQty(boxes: AssortmentBox[]): Record<string, number> {
+  const qty: Record<string, number> = {};
+  for (const box of boxes) {
+    for (const [id, n] of Object.entries(box.items)) qty[id] = (qty[id] ?? 0) + n * box.copies;
+  }
+  return qty;
+}
+
+export const newBox = (capacity: number): AssortmentBox => ({
+  id: `box_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+  capacity,
+  items: {},
+  copies: 1,
+});
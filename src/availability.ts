@@ -0,0 +1,45 @@
+import type { Item, Availability, OrderTime } from "./types";
+
+// ============================================================
+// 販売時間帯の判定：純関数
+// ============================================================
+
+export const WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + (m || 0);
+};
+
+function inWindow(w: Availability, at: OrderTime): boolean {
+  if (w.weekdays && !w.weekdays.includes(at.weekday)) return false;
+  const t = toMinutes(at.time);
+  const from = w.from !== undefined ? toMinutes(w.from) : 0;
+  const to = w.to !== undefined ? toMinutes(w.to) : 24 * 60;
+  // 22:00〜翌2:00 のように日をまたぐ時間帯
+  return from <= to ? t >= from && t < to : t >= from || t < to;
+}
+
+export function isAvailableAt(item: Item, at: OrderTime): boolean {
+  if (!item.availability || item.availability.length === 0) return true;
+  return item.availability.some((w) => inWindow(w, at));
+}
+
+// 表示用（例: "10:00〜15:00" / "土日 11:00〜"）
+export function formatAvailability(item: Item): string | null {
+  if (!item.availability || item.availability.length === 0) return null;
+  return item.availability
+    .map((w) => {
+      const days = w.weekdays ? w.weekdays.map((d) => WEEKDAYS[d]).join("") + " " : "";
+      return `${days}${w.from ?? ""}〜${w.to ?? ""}`;
+    })
+    .join(" / ");
+}
+
+export function orderTimeOf(date: Date): OrderTime {
+  const hh = String(date.getHours()).padStart(2, "0");
+  const mm = String(date.getMinutes()).padStart(2, "0");
+  return { weekday: date.getDay(), time: `${hh}:${mm}` };
+}
+
+export const formatOrderTime = (at: OrderTime) => `${WEEKDAYS[at.weekday]}曜 ${at.time}`;
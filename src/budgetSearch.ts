@@ -4,14 +4,29 @@ import type {
   BudgetSearchOutcome,
   BudgetSearchResult,
   BudgetSearchResultLine,
+  BudgetSearchRelaxation,
 } from "./types";
+import { isAvailableAt } from "./availability";
+import { isOnSaleOn } from "./period";
 
 // ============================================================
 // 予算探索モード：純関数群
 // ============================================================
 
-const CAP = 400; // 結果件数の上限
+export const CAP = 400; // 結果件数の上限（ちょうど・範囲探索では1ページの件数）
 const MAX_NODES = 200_000; // 探索ノード数の上限（重い探索の早期リターン用）
+const PROGRESS_INTERVAL = 20_000; // 進捗通知の間隔（ノード数）
+// 数え上げの表の大きさの上限（マス数。Float64 なので 8 バイト/マス ≒ 320MB）。
+// 税込1円単位の価格（持ち帰り）や多数のタグ・カテゴリ条件で表が膨らみ、確保できずに落ちるのを防ぐ
+const MAX_DP_CELLS = 40_000_000;
+export const TOP_K = 20; // maximize-* で返す上位件数
+
+// 探索の途中経過を受け取るためのフック（Web Worker から利用）
+export type SearchHooks = {
+  maxNodes?: number; // 探索ノード数の上限（省略時 MAX_NODES）
+  // PROGRESS_INTERVAL ノードごとに呼ばれる。current はその時点の上位候補（目的順）
+  onProgress?: (nodes: number, current: BudgetSearchResult[]) => void;
+};
 
 function gcdTwo(a: number, b: number): number {
   while (b !== 0) {
@@ -25,29 +40,145 @@ export function gcdAll(prices: number[]): number {
   return prices.reduce((g, p) => gcdTwo(g, p), prices[0]);
 }
 
-type PoolEntry = { price: number; ids: string[]; category: string };
+// トッピングの付け方1通り（addonIds が空ならトッピングなし）。price はトッピング込みの単価
+type Variant = { addonIds: string[]; price: number };
+
+// cap = このエントリを選べる最大個数（制限なしは Infinity）
+// tags = 代表アイテムのタグ（タグ条件の判定用）
+// variants = トッピングの付け方の候補。先頭はトッピングなし。
+//   トッピングはアイテム単位で全数量に付くので、1つのエントリで使える variant は1つだけ
+type PoolEntry = {
+  price: number;
+  ids: string[];
+  category: string;
+  tags: string[];
+  cap: number;
+  variants: Variant[];
+};
+
+// addons の全部分集合を variant にする（カテゴリのトッピングは数個なので列挙で足りる）
+function toVariants(price: number, addons: Item[]): Variant[] {
+  let variants: Variant[] = [{ addonIds: [], price }];
+  for (const a of addons) {
+    variants = [
+      ...variants,
+      ...variants.map((v) => ({ addonIds: [...v.addonIds, a.id], price: v.price + a.price })),
+    ];
+  }
+  return variants;
+}
+
+const toEntry = (it: Item, cap: number, addons: Item[] = []): PoolEntry => ({
+  price: it.price,
+  ids: [it.id],
+  category: it.category,
+  tags: it.tags ?? [],
+  cap,
+  variants: toVariants(it.price, addons),
+});
 
 // 同一カテゴリ・同一価格のアイテムを1グループにまとめる
-export function groupByPrice(items: Item[]): PoolEntry[] {
+// keyTags を渡すと、それらのタグの有無も一致するものだけをまとめる（タグ条件がある場合）
+// addonsByCategory があれば各エントリにトッピングの付け方を持たせる（カテゴリ単位なのでグループ内で共通）
+export function groupByPrice(
+  items: Item[],
+  keyTags: string[] = [],
+  addonsByCategory: Record<string, Item[]> = {}
+): PoolEntry[] {
   const map = new Map<string, PoolEntry>();
   for (const it of items) {
-    const key = `${it.category}::${it.price}`;
+    const tagKey = keyTags.filter((t) => it.tags?.includes(t)).join(",");
+    const key = `${it.category}::${it.price}::${tagKey}`;
     const existing = map.get(key);
     if (existing) {
       existing.ids.push(it.id);
     } else {
-      map.set(key, { price: it.price, ids: [it.id], category: it.category });
+      map.set(key, toEntry(it, Infinity, addonsByCategory[it.category]));
     }
   }
   return [...map.values()];
 }
 
-function toPool(items: Item[], group: boolean): PoolEntry[] {
-  if (group) return groupByPrice(items);
-  return items.map((it) => ({ price: it.price, ids: [it.id], category: it.category }));
+// 個別上限のある品はグループ化せず単独のエントリにする（反映時に代表IDへ数量が集まるため）。
+// noDuplicates のときは各エントリ1個まで。グループを1個に絞ると同価格の別の品の組み合わせが
+// 失われるので、このときはグループ化せず品ごとのエントリにする
+// categoryAddons 指定時は、トッピング品を単品としては使わず各アイテムの付け方として扱う。
+// fixed にある品（カートでトッピングを選択中の品）は、追加分にも同じトッピングが付くので
+// その付け方1通りだけの単独エントリにする
+function toPool(
+  items: Item[],
+  config: BudgetSearchConfig,
+  keyTags: string[],
+  fixed: Record<string, Variant>
+): PoolEntry[] {
+  const limits = config.itemLimits ?? {};
+  const addonIds = new Set(Object.values(config.categoryAddons ?? {}).flat());
+  const addonsByCategory = Object.fromEntries(
+    Object.entries(config.categoryAddons ?? {}).map(([cat, ids]) => [
+      cat,
+      ids.flatMap((id) => items.filter((it) => it.id === id)),
+    ])
+  );
+  const bases = items.filter((it) => !addonIds.has(it.id));
+  const limited = bases.filter((it) => limits[it.id] !== undefined || fixed[it.id]);
+  const free = bases.filter((it) => limits[it.id] === undefined && !fixed[it.id]);
+  const entries: PoolEntry[] = [
+    ...limited.map((it) =>
+      fixed[it.id]
+        ? { ...toEntry(it, limits[it.id] ?? Infinity), price: fixed[it.id].price, variants: [fixed[it.id]] }
+        : toEntry(it, limits[it.id], addonsByCategory[it.category])
+    ),
+    ...(config.groupEquivalents && !config.noDuplicates
+      ? groupByPrice(free, keyTags, addonsByCategory)
+      : free.map((it) => toEntry(it, Infinity, addonsByCategory[it.category]))),
+  ];
+  return entries
+    .map((e) => (config.noDuplicates ? { ...e, cap: Math.min(e.cap, 1) } : e))
+    .filter((e) => e.cap > 0);
+}
+
+type Chosen = { entryIdx: number; qty: number; variant: number };
+
+// ============================================================
+// タグ・カテゴリの個数条件（「主食を1品以上」「辛いは1品まで」「おかずを1品以上」など）
+// 必須品も含めて数える
+// ============================================================
+
+type Counter = {
+  matches: (category: string, tags: string[]) => boolean;
+  min: number;        // 0 なら下限なし
+  max: number | null; // null なら上限なし
+};
+
+function buildCounters(config: BudgetSearchConfig): Counter[] {
+  const counters: Counter[] = [];
+  const tagNames = new Set([
+    ...Object.keys(config.tagMins ?? {}),
+    ...Object.keys(config.tagLimits ?? {}),
+  ]);
+  for (const tag of tagNames) {
+    const min = config.tagMins?.[tag] ?? 0;
+    const max = config.tagLimits?.[tag] ?? null;
+    if (min > 0 || max !== null) {
+      counters.push({ matches: (_, tags) => tags.includes(tag), min, max });
+    }
+  }
+  // カテゴリ上限は categoryLimits 側で扱うので、ここでは下限のみ
+  for (const [cat, min] of Object.entries(config.categoryMins ?? {})) {
+    if (min > 0) counters.push({ matches: (category) => category === cat, min, max: null });
+  }
+  // 品数下限はすべての品に当てはまる counter として数える
+  if ((config.minItems ?? 0) > 0) counters.push({ matches: () => true, min: config.minItems!, max: null });
+  return counters;
 }
 
-type Chosen = { entryIdx: number; qty: number };
+// 条件のあるタグ（同価格グループ化のキーに使う）
+function constrainedTags(config: BudgetSearchConfig): string[] {
+  return [
+    ...Object.keys(config.tagMins ?? {}).filter((t) => (config.tagMins?.[t] ?? 0) > 0),
+    ...Object.keys(config.tagLimits ?? {}),
+  ];
+}
 
 function materialize(
   chosen: Chosen[],
@@ -60,39 +191,85 @@ function materialize(
   let count = requiredLines.reduce((s, l) => s + l.qty, 0);
   for (const c of chosen) {
     const entry = pool[c.entryIdx];
-    lines.push({ itemId: entry.ids[0], groupIds: entry.ids, qty: c.qty });
-    total += entry.price * c.qty;
+    const { addonIds, price } = entry.variants[c.variant];
+    lines.push({
+      itemId: entry.ids[0],
+      groupIds: entry.ids,
+      qty: c.qty,
+      ...(addonIds.length > 0 && { addonIds }),
+    });
+    total += price * c.qty;
     count += c.qty;
   }
   return { lines, total, count };
 }
 
-export function searchCombinations(
+type Prepared = {
+  requiredLines: BudgetSearchResultLine[];
+  requiredCost: number;
+  remaining: number; // 必須品を除いた残り予算
+  minRemaining: number; // 必須品を除いた下限（range 以外は exact なら remaining、maximize-* なら 0）
+  pool: PoolEntry[]; // 価格の高い順
+  gcd: number;
+  initialCatCount: Record<string, number>; // 必須品によるカテゴリ使用数
+  counters: Counter[];
+  initialCounts: number[]; // 必須品による各 counter の個数
+};
+
+// 注文日時・販売日の指定で注文できない品は探索対象から外す
+const isOrderable = (it: Item, config: BudgetSearchConfig) =>
+  (!config.orderAt || isAvailableAt(it, config.orderAt)) && (!config.saleDate || isOnSaleOn(it, config.saleDate));
+
+// 必須品・除外品を反映して探索対象（pool）を作る。予算的に不可能なら unreachable を返す
+function prepare(
   items: Item[],
   config: BudgetSearchConfig
-): BudgetSearchOutcome {
-  const candidates = items.filter((it) => !config.excludedIds.includes(it.id));
+): Prepared | Extract<BudgetSearchOutcome, { kind: "unreachable" }> {
+  const candidates = items.filter((it) => !config.excludedIds.includes(it.id) && isOrderable(it, config));
   const required = candidates.filter((it) => config.requiredIds.includes(it.id));
-  const requiredCost = required.reduce((s, it) => s + it.price, 0);
-  const requiredLines: BudgetSearchResultLine[] = required.map((it) => ({
-    itemId: it.id,
-    groupIds: [it.id],
-    qty: 1,
-  }));
+  const requiredQty = (id: string) => Math.max(1, config.requiredQty?.[id] ?? 1);
+  // カートから固定した行は必須品と同じく先頭に置き、金額はカートの合計をそのまま使う
+  const lockedLines = (config.locked?.lines ?? []).map((l) => ({ ...l, locked: true }));
+  const requiredCost =
+    (config.locked?.total ?? 0) + required.reduce((s, it) => s + it.price * requiredQty(it.id), 0);
+  const requiredLines: BudgetSearchResultLine[] = [
+    ...lockedLines,
+    ...required.map((it) => ({
+      itemId: it.id,
+      groupIds: [it.id],
+      qty: requiredQty(it.id),
+    })),
+  ];
+  // トッピング付きでカートにある品は、追加するときも同じトッピング込みの価格になる
+  const fixed: Record<string, Variant> = {};
+  for (const l of lockedLines) {
+    const base = items.find((it) => it.id === l.itemId);
+    if (!base || !l.addonIds?.length) continue;
+    const addonPrice = l.addonIds.reduce((s, aid) => s + (items.find((a) => a.id === aid)?.price ?? 0), 0);
+    fixed[l.itemId] = { addonIds: l.addonIds, price: base.price + addonPrice };
+  }
   const remaining = config.budget - requiredCost;
+  const minRemaining =
+    config.mode === "exact"
+      ? remaining
+      : config.mode === "range"
+      ? Math.max(0, (config.minBudget ?? config.budget) - requiredCost)
+      : 0;
 
   const rest = candidates.filter((it) => !config.requiredIds.includes(it.id));
-  const pool = toPool(rest, config.groupEquivalents).sort((a, b) => b.price - a.price);
+  const pool = toPool(rest, config, constrainedTags(config), fixed).sort((a, b) => b.price - a.price);
+  const prices = pool.flatMap((p) => p.variants.map((v) => v.price));
 
   if (remaining < 0) {
-    return { kind: "unreachable", nearestDown: null, nearestUp: null, gcd: gcdAll(pool.map((p) => p.price)) };
+    return { kind: "unreachable", nearestDown: null, nearestUp: null, gcd: gcdAll(prices) };
   }
 
-  const gcd = gcdAll(pool.length > 0 ? pool.map((p) => p.price) : [remaining || 1]);
+  const gcd = gcdAll(prices.length > 0 ? prices : [remaining || 1]);
 
-  if (config.mode === "exact" && remaining % gcd !== 0) {
-    const downUnits = Math.floor(remaining / gcd);
-    const upUnits = Math.ceil(remaining / gcd);
+  // 下限〜上限の間に gcd の倍数がなければ到達不可能（exact は下限＝上限）
+  const downUnits = Math.floor(remaining / gcd);
+  const upUnits = Math.ceil(minRemaining / gcd);
+  if (downUnits < upUnits) {
     return {
       kind: "unreachable",
       nearestDown: downUnits >= 0 ? downUnits * gcd + requiredCost : null,
@@ -101,22 +278,330 @@ export function searchCombinations(
     };
   }
 
-  const results: BudgetSearchResult[] = [];
-  let best: BudgetSearchResult | null = null;
-  let nodeCount = 0;
-  let cappedByNodes = false;
+  // カテゴリ・タグの個数は固定行・必須品も含めて数える
+  const fixedItems = requiredLines.flatMap((l) => {
+    const it = items.find((x) => x.id === l.itemId);
+    return it ? [{ it, qty: l.qty }] : [];
+  });
+  const initialCatCount: Record<string, number> = {};
+  for (const { it, qty } of fixedItems) {
+    initialCatCount[it.category] = (initialCatCount[it.category] ?? 0) + qty;
+  }
+  const built = buildCounters(config);
+  const initialCounts = built.map((c) =>
+    fixedItems
+      .filter(({ it }) => c.matches(it.category, it.tags ?? []))
+      .reduce((s, { qty }) => s + qty, 0)
+  );
+  // 探索で足せるのは最大 maxItems 品なので、各 counter はそれ以上にならない。
+  // 上限はそこで頭打ちにし（数え上げの桁が無駄に大きくならないように）、届かない下限は到達不可能
+  const reach = initialCounts.map((c) => c + config.maxItems);
+  const counters = built.map((c, i) => ({
+    ...c,
+    max: c.max === null ? null : Math.min(c.max, reach[i]),
+  }));
+  if (counters.some((c, i) => c.min > reach[i])) {
+    return { kind: "unreachable", nearestDown: null, nearestUp: null, gcd, byCounts: true };
+  }
+  return {
+    requiredLines,
+    requiredCost,
+    remaining,
+    minRemaining,
+    pool,
+    gcd,
+    initialCatCount,
+    counters,
+    initialCounts,
+  };
+}
+
+// ============================================================
+// ちょうど探索・範囲探索：動的計画法による数え上げ
+// 価格を gcd 単位に割った「ユニット数」・品数・カテゴリ残り枠・タグ等の個数を状態に取り、
+// 条件を満たす組み合わせの総数を正確に求める。
+// 結果は番号（0始まり）から復元できるので、全件をページ単位で遅延取得できる
+// ============================================================
+
+export type BudgetEnumerator = {
+  kind: "enumerator";
+  total: number; // 条件を満たす組み合わせの総数
+  get: (index: number) => BudgetSearchResult;
+  page: (offset: number, limit: number) => BudgetSearchResult[];
+};
+
+// 数え上げで全件を扱えるモード（それ以外は深さ優先探索）
+export function isEnumerable(mode: BudgetSearchConfig["mode"]): boolean {
+  return mode === "exact" || mode === "range";
+}
+
+export function createBudgetEnumerator(
+  items: Item[],
+  config: BudgetSearchConfig
+): BudgetEnumerator | Extract<BudgetSearchOutcome, { kind: "unreachable" | "error" }> {
+  const prep = prepare(items, config);
+  if ("kind" in prep) return prep;
+  const { requiredLines, requiredCost, remaining, minRemaining, gcd, initialCatCount, counters } = prep;
+
+  // カテゴリ上限を扱うため、同じカテゴリのエントリを連続させる（カテゴリ内は高い順のまま）
+  const catOrder = [...new Set(prep.pool.map((e) => e.category))];
+  const pool = [...prep.pool].sort(
+    (a, b) => catOrder.indexOf(a.category) - catOrder.indexOf(b.category)
+  );
+  const n = pool.length;
+  const K = config.maxItems;
+  const U = Math.floor(remaining / gcd);
+  const uMin = Math.ceil(minRemaining / gcd);
+  const units = pool.map((e) => e.variants.map((v) => v.price / gcd)); // variant ごとのユニット数
+
+  // カテゴリごとの残り枠。上限なしのカテゴリは枠を追跡しない（cap = null）
+  const capOf = (cat: string): number | null => {
+    const limit = config.categoryLimits[cat];
+    if (limit === undefined) return null;
+    return Math.max(0, Math.min(K, limit - (initialCatCount[cat] ?? 0)));
+  };
+  const caps = pool.map((e) => capOf(e.category));
+  const rSize = caps.map((c) => (c === null ? 1 : c + 1));
+  const blockEnd = pool.map((e, j) => j + 1 >= n || pool[j + 1].category !== e.category);
+
+  // タグ等の個数は各 counter ごとに 0〜(上限 or 下限) の桁を持つ混合基数 c で表す。
+  // 上限のない counter は下限で頭打ちにし、上限を超えたら -1（不成立）
+  const digitSize = counters.map((ct) => (ct.max ?? ct.min) + 1);
+  const C = digitSize.reduce((a, b) => a * b, 1);
+  // 表（エントリごとに C × 残り枠 × 品数 × ユニット数）と nextC の大きさを確保前に見積もる。
+  // 上限を超えるなら探索せずに失敗として返す（ワーカーでも配列の確保失敗は例外にならずプロセスごと落ちる）
+  const cells = C * (K + 1) * (U + 1) * (1 + rSize.reduce((a, b) => a + b, 0)) + n * C;
+  if (cells > MAX_DP_CELLS) {
+    return {
+      kind: "error",
+      message:
+        `条件の組み合わせが多すぎて数え上げられません（約${Math.ceil(cells / 1e4).toLocaleString("ja-JP")}万通りの状態、` +
+        `金額 ${gcd}円単位・${K}品まで・個数条件 ${counters.length}個）`,
+    };
+  }
+  const decode = (c: number) =>
+    digitSize.map((size) => {
+      const d = c % size;
+      c = Math.floor(c / size);
+      return d;
+    });
+  const encode = (digits: number[]) => digits.reduceRight((acc, d, i) => acc * digitSize[i] + d, 0);
+  const addCounts = (digits: number[], deltas: number[]) => {
+    const next = digits.map((d, i) => d + deltas[i]);
+    for (let i = 0; i < counters.length; i++) {
+      const { min, max } = counters[i];
+      if (max !== null && next[i] > max) return -1;
+      if (max === null) next[i] = Math.min(next[i], min);
+    }
+    return encode(next);
+  };
+  const valid = Array.from({ length: C }, (_, c) =>
+    decode(c).every((d, i) => d >= counters[i].min)
+  );
+  // nextC[j][c] = エントリ j を1個足したときの c（不成立は -1）
+  const nextC = pool.map((e) => {
+    const deltas = counters.map((ct) => (ct.matches(e.category, e.tags) ? 1 : 0));
+    return Array.from({ length: C }, (_, c) => addCounts(decode(c), deltas));
+  });
+  const stepC = (j: number, c: number, q: number) => {
+    for (let i = 0; i < q && c >= 0; i++) c = nextC[j][c];
+    return c;
+  };
+  const startC = addCounts(counters.map(() => 0), prep.initialCounts);
+
+  // F[j][((c * rSize + r) * (K+1) + k) * (U+1) + u]
+  //   = エントリ j 以降から、ちょうど k 品・u ユニットを選び、個数条件を満たす方法の数
+  // r は j のカテゴリの残り枠（上限なしなら常に 0 番地）
+  const F: Float64Array[] = new Array(n + 1);
+  const stride = (K + 1) * (U + 1);
+  const rSizeAt = (j: number) => (j < n ? rSize[j] : 1);
+  const at = (j: number, c: number, r: number, k: number, u: number) =>
+    ((c * rSizeAt(j) + r) * (K + 1) + k) * (U + 1) + u;
+  F[n] = new Float64Array(C * stride);
+  for (let c = 0; c < C; c++) if (valid[c]) F[n][at(n, c, 0, 0, 0)] = 1;
+  // 次のエントリに進むときの残り枠（カテゴリが変われば新しいカテゴリの枠に切り替わる）
+  const nextR = (j: number, r: number) => {
+    if (j + 1 >= n) return 0;
+    if (blockEnd[j]) return caps[j + 1] ?? 0;
+    return caps[j + 1] === null ? 0 : r;
+  };
+
+  // 個数上限のあるエントリ（またはトッピング違いを選ぶエントリ）で取りうる最大個数
+  const maxQty = (j: number, v: number, r: number, k: number, u: number) =>
+    Math.min(pool[j].cap, k, Math.floor(u / units[j][v]), caps[j] === null ? Infinity : r);
+  // エントリ j を variant v でちょうど q 個使って次へ進む方法の数
+  const takeThenNext = (j: number, v: number, c: number, r: number, k: number, u: number, q: number) => {
+    const nc = stepC(j, c, q);
+    if (nc < 0) return 0;
+    return F[j + 1][at(j + 1, nc, nextR(j, caps[j] === null ? r : r - q), k - q, u - q * units[j][v])];
+  };
+  // 1個ずつ積み上げる漸化式が使えないエントリ（個数上限あり・トッピング違いあり）
+  const direct = (j: number) => pool[j].cap !== Infinity || pool[j].variants.length > 1;
+
+  for (let j = n - 1; j >= 0; j--) {
+    const table = new Float64Array(C * rSize[j] * stride);
+    const p = units[j][0];
+    const limited = caps[j] !== null;
+    const bounded = direct(j);
+    // 1個足すと c は増える（か変わらない）ので、c の大きい方から埋める
+    for (let c = C - 1; c >= 0; c--) {
+      const c1 = nextC[j][c];
+      for (let r = 0; r < rSize[j]; r++) {
+        const nr = nextR(j, r);
+        for (let k = 0; k <= K; k++) {
+          for (let u = 0; u <= U; u++) {
+            let v: number;
+            if (bounded) {
+              // 使わない場合 + variant ごとに 1〜上限個を直接足し合わせる
+              v = takeThenNext(j, 0, c, r, k, u, 0);
+              for (let vi = 0; vi < units[j].length; vi++) {
+                for (let q = maxQty(j, vi, r, k, u); q >= 1; q--) v += takeThenNext(j, vi, c, r, k, u, q);
+              }
+            } else {
+              // 使わずに次へ
+              v = F[j + 1][at(j + 1, c, nr, k, u)];
+              // もう1個使ってこのエントリに留まる
+              if (c1 >= 0 && k >= 1 && u >= p && (!limited || r >= 1)) {
+                v += table[at(j, c1, limited ? r - 1 : 0, k - 1, u - p)];
+              }
+            }
+            table[at(j, c, r, k, u)] = v;
+          }
+        }
+      }
+    }
+    F[j] = table;
+  }
+
+  const startR = n > 0 ? caps[0] ?? 0 : 0;
+  // 金額の高い順 → 品数の少ない順に並べるため、(金額, 品数) ごとの件数を持っておく
+  const blocks: { u: number; k: number; count: number }[] = [];
+  for (let u = U; u >= uMin && startC >= 0; u--) {
+    for (let k = 0; k <= K; k++) {
+      const count = F[0][at(0, startC, startR, k, u)];
+      if (count > 0) blocks.push({ u, k, count });
+    }
+  }
+  const total = blocks.reduce((a, b) => a + b.count, 0);
+
+  const get = (index: number): BudgetSearchResult => {
+    let rank = index;
+    let bi = 0;
+    while (bi < blocks.length - 1 && rank >= blocks[bi].count) rank -= blocks[bi++].count;
+    let { k, u } = blocks[bi];
 
-  const isBetter = (candidate: BudgetSearchResult, current: BudgetSearchResult | null) => {
-    if (!current) return true;
+    const chosen: Chosen[] = [];
+    let j = 0;
+    let c = startC;
+    let r = startR;
+    while (k > 0) {
+      const p = units[j][0];
+      const limited = caps[j] !== null;
+      if (direct(j)) {
+        // variant の順に、多く使う方から q 個を決めて次へ（どれにも当たらなければ使わない）
+        let q = 0;
+        let vi = 0;
+        pick: for (; vi < units[j].length; vi++) {
+          for (q = maxQty(j, vi, r, k, u); q >= 1; q--) {
+            const ways = takeThenNext(j, vi, c, r, k, u, q);
+            if (rank < ways) break pick;
+            rank -= ways;
+          }
+        }
+        if (q > 0) {
+          chosen.push({ entryIdx: j, qty: q, variant: vi });
+          k -= q;
+          u -= q * units[j][vi];
+          c = stepC(j, c, q);
+        }
+        r = nextR(j, limited ? r - q : r);
+        j += 1;
+        continue;
+      }
+      const c1 = nextC[j][c];
+      const take =
+        c1 >= 0 && k >= 1 && u >= p && (!limited || r >= 1)
+          ? F[j][at(j, c1, limited ? r - 1 : 0, k - 1, u - p)]
+          : 0;
+      if (rank < take) {
+        const last = chosen[chosen.length - 1];
+        if (last && last.entryIdx === j) last.qty += 1;
+        else chosen.push({ entryIdx: j, qty: 1, variant: 0 });
+        k -= 1;
+        u -= p;
+        c = c1;
+        if (limited) r -= 1;
+      } else {
+        rank -= take;
+        r = nextR(j, r);
+        j += 1;
+      }
+    }
+    return materialize(chosen, pool, requiredLines, requiredCost);
+  };
+
+  const page = (offset: number, limit: number) => {
+    const out: BudgetSearchResult[] = [];
+    for (let i = offset; i < Math.min(total, offset + limit); i++) out.push(get(i));
+    return out;
+  };
+
+  return { kind: "enumerator", total, get, page };
+}
+
+// 数え上げ結果の先頭ページを探索結果として返す
+export function enumeratedOutcome(enumerator: BudgetEnumerator): BudgetSearchOutcome {
+  return {
+    kind: "ok",
+    results: enumerator.page(0, CAP),
+    truncated: false,
+    totalFound: enumerator.total,
+    offset: 0,
+  };
+}
+
+export function searchCombinations(
+  items: Item[],
+  config: BudgetSearchConfig,
+  hooks: SearchHooks = {}
+): BudgetSearchOutcome {
+  if (isEnumerable(config.mode)) {
+    const enumerator = createBudgetEnumerator(items, config);
+    return enumerator.kind === "enumerator" ? enumeratedOutcome(enumerator) : enumerator;
+  }
+
+  // maximize-*: 予算以内の組み合わせを深さ優先で探索し、上位 TOP_K 件と
+  // (金額, 品数) のパレート最適な組み合わせを残す
+  const maxNodes = hooks.maxNodes ?? MAX_NODES;
+  const prep = prepare(items, config);
+  if ("kind" in prep) return prep;
+  const { requiredLines, requiredCost, remaining, pool, initialCatCount, counters } = prep;
+  const requiredCount = requiredLines.reduce((s, l) => s + l.qty, 0);
+  // タグ等の個数（必須品込み）。エントリごとに該当する counter を先に求めておく
+  const counts = [...prep.initialCounts];
+  const entryCounters = pool.map((e) =>
+    counters.flatMap((ct, i) => (ct.matches(e.category, e.tags) ? [i] : []))
+  );
+  const countsOk = () => counts.every((v, i) => v >= counters[i].min);
+  // トッピング違いも1つの選択肢として並べる（同じエントリの variant は連続する）
+  const options = pool.flatMap((e, entryIdx) => e.variants.map((_, variant) => ({ entryIdx, variant })));
+
+  // 目的順の比較（負なら a が上位）
+  const compare = (a: { total: number; count: number }, b: { total: number; count: number }) => {
     if (config.mode === "maximize-count") {
-      if (candidate.count !== current.count) return candidate.count > current.count;
-      return candidate.total > current.total;
+      if (a.count !== b.count) return b.count - a.count;
+      return b.total - a.total;
     }
     // maximize-price
-    if (candidate.total !== current.total) return candidate.total > current.total;
-    return candidate.count > current.count;
+    if (a.total !== b.total) return b.total - a.total;
+    return b.count - a.count;
   };
 
+  const top: BudgetSearchResult[] = []; // 目的順に並んだ上位候補
+  const bestByCount = new Map<number, BudgetSearchResult>(); // 品数ごとの最高額（パレート前線の候補）
+  let nodeCount = 0;
+  let cappedByNodes = false;
+
   function recurse(
     startIdx: number,
     remain: number,
@@ -124,45 +609,63 @@ export function searchCombinations(
     depth: number,
     catCount: Record<string, number>
   ) {
-    if (results.length >= CAP) return;
-    if (nodeCount >= MAX_NODES) {
+    if (nodeCount >= maxNodes) {
       cappedByNodes = true;
       return;
     }
     nodeCount++;
+    if (nodeCount % PROGRESS_INTERVAL === 0) hooks.onProgress?.(nodeCount, [...top]);
 
-    if (config.mode === "exact") {
-      if (remain === 0) {
-        results.push(materialize(chosen, pool, requiredLines, requiredCost));
-        return;
-      }
-    } else {
-      // maximize-*: 「予算以内」なら常に候補として評価
+    // 「予算以内」かつ個数条件を満たせば候補として評価（結果行の組み立ては採用するときだけ）
+    const total = requiredCost + remaining - remain;
+    const ok = countsOk();
+    const count = requiredCount + depth;
+    const entersTop =
+      ok && (top.length < TOP_K || compare({ total, count }, top[top.length - 1]) < 0);
+    const byCount = bestByCount.get(count);
+    const entersFront = ok && (!byCount || total > byCount.total);
+    if (entersTop || entersFront) {
       const candidate = materialize(chosen, pool, requiredLines, requiredCost);
-      if (isBetter(candidate, best)) best = candidate;
+      if (entersTop) {
+        let pos = top.length;
+        while (pos > 0 && compare(candidate, top[pos - 1]) < 0) pos--;
+        top.splice(pos, 0, candidate);
+        if (top.length > TOP_K) top.pop();
+      }
+      if (entersFront) bestByCount.set(count, candidate);
     }
 
     if (depth >= config.maxItems) return;
 
-    for (let idx = startIdx; idx < pool.length; idx++) {
-      if (results.length >= CAP || nodeCount >= MAX_NODES) return;
+    for (let opt = startIdx; opt < options.length; opt++) {
+      if (nodeCount >= maxNodes) return;
+      const { entryIdx: idx, variant } = options[opt];
       const entry = pool[idx];
-      if (entry.price > remain) continue;
+      const price = entry.variants[variant].price;
+      if (price > remain) continue;
 
       const curCatQty = catCount[entry.category] ?? 0;
       const limit = config.categoryLimits[entry.category];
       if (limit !== undefined && curCatQty >= limit) continue;
 
       const last = chosen[chosen.length - 1];
+      // 同じエントリを別のトッピングで使うことはできない
+      if (last && last.entryIdx === idx && last.variant !== variant) continue;
+      if (last && last.entryIdx === idx && last.qty >= entry.cap) continue;
+      if (entryCounters[idx].some((i) => counters[i].max !== null && counts[i] >= counters[i].max!)) {
+        continue;
+      }
       if (last && last.entryIdx === idx) {
         last.qty += 1;
       } else {
-        chosen.push({ entryIdx: idx, qty: 1 });
+        chosen.push({ entryIdx: idx, qty: 1, variant });
       }
       catCount[entry.category] = curCatQty + 1;
+      for (const i of entryCounters[idx]) counts[i]++;
 
-      recurse(idx, remain - entry.price, chosen, depth + 1, catCount);
+      recurse(opt, remain - price, chosen, depth + 1, catCount);
 
+      for (const i of entryCounters[idx]) counts[i]--;
       catCount[entry.category] = curCatQty;
       const tail = chosen[chosen.length - 1];
       if (tail.qty > 1) {
@@ -173,30 +676,166 @@ export function searchCombinations(
     }
   }
 
-  const initialCatCount: Record<string, number> = {};
-  for (const it of required) {
-    initialCatCount[it.category] = (initialCatCount[it.category] ?? 0) + 1;
-  }
-  recurse(0, remaining, [], 0, initialCatCount);
+  recurse(0, remaining, [], 0, { ...initialCatCount });
+  hooks.onProgress?.(nodeCount, [...top]);
 
-  if (config.mode !== "exact") {
-    // required のみで既に条件を満たす場合（poolから何も選ばない）もbest候補になる
-    const zeroChoice = materialize([], pool, requiredLines, requiredCost);
-    if (isBetter(zeroChoice, best)) best = zeroChoice;
-    return {
-      kind: "ok",
-      results: best ? [best] : [],
-      truncated: false,
-      totalFound: best ? 1 : 0,
-    };
+  // パレート前線：品数の多い順に見て、それより多い品数のどれよりも高額なものだけ残す
+  const pareto: BudgetSearchResult[] = [];
+  let bestTotalAbove = -1;
+  for (const count of [...bestByCount.keys()].sort((a, b) => b - a)) {
+    const r = bestByCount.get(count)!;
+    if (r.total > bestTotalAbove) {
+      pareto.push({ ...r, pareto: true });
+      bestTotalAbove = r.total;
+    }
   }
-
-  results.sort((a, b) => (a.count !== b.count ? a.count - b.count : a.total - b.total));
+  const isPareto = (r: BudgetSearchResult) =>
+    pareto.some((p) => p.total === r.total && p.count === r.count);
 
   return {
     kind: "ok",
-    results: results.slice(0, CAP),
-    truncated: cappedByNodes || results.length > CAP,
-    totalFound: results.length,
+    results: top.map((r, i) => ({ ...r, rank: i + 1, pareto: isPareto(r) })),
+    truncated: cappedByNodes,
+    totalFound: top.length,
+    offset: 0,
+    pareto,
   };
 }
+
+// ============================================================
+// 見つからない原因の診断
+// 条件を1つずつ最小限だけ緩めて、組み合わせが存在するようになるものを挙げる。
+// 存在判定は数え上げ（範囲探索）で行うので、どのモードでも同じ基準になる
+// ============================================================
+
+const MAX_ITEMS_LIMIT = 8; // 品数上限の入力欄の上限と揃える
+
+function hasSolution(items: Item[], config: BudgetSearchConfig): boolean {
+  const minBudget =
+    config.mode === "exact" ? config.budget : config.mode === "range" ? config.minBudget ?? config.budget : 0;
+  const e = createBudgetEnumerator(items, { ...config, mode: "range", minBudget });
+  return e.kind === "enumerator" && e.total > 0;
+}
+
+// from から to まで順に試し、最初に見つかる値（なければ null）
+function firstFeasible(values: number[], test: (v: number) => boolean): number | null {
+  for (const v of values) if (test(v)) return v;
+  return null;
+}
+
+const steps = (from: number, to: number) =>
+  from <= to
+    ? Array.from({ length: to - from + 1 }, (_, i) => from + i)
+    : Array.from({ length: from - to + 1 }, (_, i) => from - i);
+
+export function diagnoseSearch(items: Item[], config: BudgetSearchConfig): BudgetSearchRelaxation[] {
+  const out: BudgetSearchRelaxation[] = [];
+  const test = (patch: Partial<BudgetSearchConfig>) => hasSolution(items, { ...config, ...patch });
+  const without = (record: Record<string, number> | undefined, key: string) => {
+    const next = { ...record };
+    delete next[key];
+    return next;
+  };
+
+  // 固定・必須品だけで予算を超えている：予算をその額まで上げる
+  const prep = prepare(items, config);
+  if ("kind" in prep && !prep.byCounts && prep.nearestDown === null && prep.nearestUp === null) {
+    const requiredCost =
+      (config.locked?.total ?? 0) +
+      items
+        .filter(
+          (it) =>
+            config.requiredIds.includes(it.id) &&
+            !config.excludedIds.includes(it.id) &&
+            isOrderable(it, config)
+        )
+        .reduce((s, it) => s + it.price * Math.max(1, config.requiredQty?.[it.id] ?? 1), 0);
+    const patch = { budget: requiredCost };
+    if (test(patch)) out.push({ kind: "budget", budget: requiredCost, patch });
+  }
+
+  for (const itemId of config.requiredIds) {
+    const patch = {
+      requiredIds: config.requiredIds.filter((id) => id !== itemId),
+      requiredQty: without(config.requiredQty, itemId),
+    };
+    if (test(patch)) out.push({ kind: "drop-required", itemId, patch });
+  }
+
+  const maxItems = firstFeasible(steps(config.maxItems + 1, MAX_ITEMS_LIMIT), (m) => test({ maxItems: m }));
+  if (maxItems !== null) out.push({ kind: "max-items", maxItems, patch: { maxItems } });
+
+  if ((config.minItems ?? 0) > 0) {
+    const minItems = firstFeasible(steps(config.minItems! - 1, 0), (m) => test({ minItems: m }));
+    if (minItems !== null) out.push({ kind: "min-items", minItems, patch: { minItems } });
+  }
+
+  for (const [category, current] of Object.entries(config.categoryLimits)) {
+    const limit = firstFeasible(steps(current + 1, config.maxItems), (l) =>
+      test({ categoryLimits: { ...config.categoryLimits, [category]: l } })
+    );
+    if (limit !== null) {
+      const patch = { categoryLimits: { ...config.categoryLimits, [category]: limit } };
+      out.push({ kind: "category-limit", category, limit, patch });
+    }
+  }
+
+  for (const [category, current] of Object.entries(config.categoryMins ?? {})) {
+    const min = firstFeasible(steps(current - 1, 0), (m) =>
+      test({ categoryMins: { ...config.categoryMins, [category]: m } })
+    );
+    if (min !== null) {
+      const patch = { categoryMins: { ...config.categoryMins, [category]: min } };
+      out.push({ kind: "category-min", category, min, patch });
+    }
+  }
+
+  for (const [tag, current] of Object.entries(config.tagLimits ?? {})) {
+    const limit = firstFeasible(steps(current + 1, config.maxItems), (l) =>
+      test({ tagLimits: { ...config.tagLimits, [tag]: l } })
+    );
+    if (limit !== null) {
+      const patch = { tagLimits: { ...config.tagLimits, [tag]: limit } };
+      out.push({ kind: "tag-limit", tag, limit, patch });
+    }
+  }
+
+  for (const [tag, current] of Object.entries(config.tagMins ?? {})) {
+    const min = firstFeasible(steps(current - 1, 0), (m) => test({ tagMins: { ...config.tagMins, [tag]: m } }));
+    if (min !== null) {
+      const patch = { tagMins: { ...config.tagMins, [tag]: min } };
+      out.push({ kind: "tag-min", tag, min, patch });
+    }
+  }
+
+  for (const itemId of config.excludedIds) {
+    const patch = { excludedIds: config.excludedIds.filter((id) => id !== itemId) };
+    if (test(patch)) out.push({ kind: "unexclude", itemId, patch });
+  }
+
+  for (const [itemId, current] of Object.entries(config.itemLimits ?? {})) {
+    const limit = firstFeasible(steps(current + 1, config.maxItems), (l) =>
+      test({ itemLimits: { ...config.itemLimits, [itemId]: l } })
+    );
+    if (limit !== null) {
+      const patch = { itemLimits: { ...config.itemLimits, [itemId]: limit } };
+      out.push({ kind: "item-limit", itemId, limit, patch });
+    }
+  }
+
+  if (config.noDuplicates && test({ noDuplicates: false })) {
+    out.push({ kind: "allow-duplicates", patch: { noDuplicates: false } });
+  }
+
+  return out;
+}
+
+// 0件・到達不可能の結果に、見つからない原因の候補を添える
+export function withDiagnosis(
+  items: Item[],
+  config: BudgetSearchConfig,
+  outcome: BudgetSearchOutcome
+): BudgetSearchOutcome {
+  if (outcome.kind === "error" || (outcome.kind === "ok" && outcome.totalFound > 0)) return outcome;
+  return { ...outcome, relaxations: diagnoseSearch(items, config) };
+}
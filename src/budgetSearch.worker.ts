@@ -0,0 +1,87 @@
+import {
+  searchCombinations,
+  createBudgetEnumerator,
+  enumeratedOutcome,
+  isEnumerable,
+  withDiagnosis,
+} from "./budgetSearch";
+import type { BudgetEnumerator } from "./budgetSearch";
+import { searchGroup } from "./groupSearch";
+import { compareRestaurants } from "./compare";
+import { planWeek } from "./weeklyPlan";
+import type { BudgetSearchRequest, BudgetSearchResponse } from "./budgetSearchClient";
+
+// ============================================================
+// 予算探索ワーカー
+// UIスレッドを止めないよう探索をここで実行し、途中結果と進捗を送り返す
+// ============================================================
+
+const WORKER_MAX_NODES = 20_000_000; // UIを止めないのでメインスレッドより大きく取る
+const POST_INTERVAL_MS = 100; // 途中経過を送る最短間隔
+
+const post = (msg: BudgetSearchResponse) => self.postMessage(msg);
+
+// 直前のちょうど・範囲探索の数え上げ（ページ取得で使い回す）
+let enumerator: BudgetEnumerator | null = null;
+
+self.onmessage = (e: MessageEvent<BudgetSearchRequest>) => {
+  try {
+    handle(e.data);
+  } catch (err) {
+    // 想定外の例外で落ちても UI が「探索中」のまま残らないよう失敗を返す（表の大きさは createBudgetEnumerator が確保前に検査する）
+    enumerator = null;
+    post({ type: "done", nodes: 0, outcome: { kind: "error", message: (err as Error).message ?? String(err) } });
+  }
+};
+
+function handle(req: BudgetSearchRequest) {
+  if (req.type === "page") {
+    post({ type: "page", offset: req.offset, results: enumerator?.page(req.offset, req.limit) ?? [] });
+    return;
+  }
+  if (req.type === "group") {
+    post({ type: "group", result: searchGroup(req.items, req.group, req.base) });
+    return;
+  }
+  if (req.type === "compare") {
+    post({ type: "compare", rows: compareRestaurants(req.restaurants, req.cond) });
+    return;
+  }
+  if (req.type === "week") {
+    const pick = req.random ? (n: number) => Math.floor(Math.random() * Math.min(n, 5)) : undefined;
+    post({ type: "week", days: planWeek(req.config, req.restaurants, pick) });
+    return;
+  }
+
+  const { items, config } = req;
+  enumerator = null;
+
+  // ちょうど・範囲探索は動的計画法で一括して数え上げる（途中経過なし）
+  if (isEnumerable(config.mode)) {
+    const result = createBudgetEnumerator(items, config);
+    if (result.kind === "enumerator") {
+      enumerator = result;
+      post({ type: "done", nodes: 0, outcome: withDiagnosis(items, config, enumeratedOutcome(result)) });
+    } else {
+      post({ type: "done", nodes: 0, outcome: withDiagnosis(items, config, result) });
+    }
+    return;
+  }
+
+  // maximize-* はその時点の上位候補を一定間隔で送る
+  let lastPost = 0;
+  let nodes = 0;
+
+  const outcome = searchCombinations(items, config, {
+    maxNodes: WORKER_MAX_NODES,
+    onProgress: (n, current) => {
+      nodes = n;
+      if (Date.now() - lastPost >= POST_INTERVAL_MS) {
+        post({ type: "progress", nodes, results: current });
+        lastPost = Date.now();
+      }
+    },
+  });
+
+  post({ type: "done", nodes, outcome: withDiagnosis(items, config, outcome) });
+}
@@ -0,0 +1,183 @@
+import type {
+  Item,
+  BudgetSearchConfig,
+  BudgetSearchOutcome,
+  BudgetSearchResult,
+  GroupSearchConfig,
+  GroupSearchResult,
+  Restaurant,
+  WeeklyPlanConfig,
+  WeeklyPlanDayResult,
+} from "./types";
+import type { CompareConditions, CompareRow } from "./compare";
+
+// ============================================================
+// 予算探索ワーカーとのメッセージ定義
+// ============================================================
+
+export type BudgetSearchRequest =
+  | { type: "search"; items: Item[]; config: BudgetSearchConfig }
+  // ちょうど・範囲探索の結果を offset 件目から limit 件取得（直前の search の数え上げを使う）
+  | { type: "page"; offset: number; limit: number }
+  // グループ探索（1人ずつ searchCombinations を回す。base は全員に共通の条件）
+  | { type: "group"; items: Item[]; group: GroupSearchConfig; base: BudgetSearchConfig }
+  // 店舗の横並び比較（店ごとに最多品数・最高額・ちょうどの件数を求める）
+  | { type: "compare"; restaurants: Restaurant[]; cond: CompareConditions }
+  // 週間ランチ計画（random なら各日の上位5件からランダムに選ぶ＝「別の案」）
+  | { type: "week"; config: WeeklyPlanConfig; restaurants: Restaurant[]; random: boolean };
+
+export type BudgetSearchResponse =
+  // 途中経過。results はその時点の暫定結果
+  | { type: "progress"; nodes: number; results: BudgetSearchResult[] }
+  | { type: "done"; nodes: number; outcome: BudgetSearchOutcome }
+  | { type: "page"; offset: number; results: BudgetSearchResult[] }
+  | { type: "group"; result: GroupSearchResult }
+  | { type: "compare"; rows: CompareRow[] }
+  | { type: "week"; days: WeeklyPlanDayResult[] };
+
+export type BudgetSearchHandlers = {
+  onProgress: (nodes: number, results: BudgetSearchResult[]) => void;
+  onDone: (outcome: BudgetSearchOutcome, nodes: number) => void;
+  onPage: (offset: number, results: BudgetSearchResult[]) => void;
+};
+
+export type BudgetSearchHandle = {
+  cancel: () => void; // 探索を中止し、ワーカーを破棄する
+  requestPage: (offset: number, limit: number) => void; // 結果は onPage で届く
+};
+
+// ============================================================
+// 予算探索をWeb Workerで実行する
+// DFSは同期処理のため途中でメッセージを受け取れず、中止はワーカーごと terminate して行う。
+// 探索完了後もワーカーはページ取得用に残し、cancel() で破棄する
+// ============================================================
+
+export function startBudgetSearch(
+  items: Item[],
+  config: BudgetSearchConfig,
+  handlers: BudgetSearchHandlers
+): BudgetSearchHandle {
+  const worker = new Worker(new URL("./budgetSearch.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  let cancelled = false;
+
+  worker.onmessage = (e: MessageEvent<BudgetSearchResponse>) => {
+    if (cancelled) return;
+    const msg = e.data;
+    if (msg.type === "progress") {
+      handlers.onProgress(msg.nodes, msg.results);
+    } else if (msg.type === "done") {
+      handlers.onDone(msg.outcome, msg.nodes);
+    } else if (msg.type === "page") {
+      handlers.onPage(msg.offset, msg.results);
+    }
+  };
+
+  // ワーカー自体が落ちた（読み込み失敗・捕捉できない例外）・メッセージを復元できない場合は、
+  // ワーカーを破棄して失敗として返す
+  const fail = (message: string) => {
+    if (cancelled) return;
+    cancelled = true;
+    worker.terminate();
+    handlers.onDone({ kind: "error", message }, 0);
+  };
+  worker.onerror = (e) => {
+    e.preventDefault();
+    fail(e.message || "探索ワーカーでエラーが発生しました");
+  };
+  worker.onmessageerror = () => fail("探索ワーカーからの結果を読み取れませんでした");
+
+  const post = (request: BudgetSearchRequest) => worker.postMessage(request);
+  post({ type: "search", items, config });
+
+  return {
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      worker.terminate();
+    },
+    requestPage: (offset, limit) => {
+      if (!cancelled) post({ type: "page", offset, limit });
+    },
+  };
+}
+
+// ============================================================
+// 結果が1回だけ返る探索（グループ・比較・週間計画）をWeb Workerで実行する。
+// 結果（pick が値を返すメッセージ）が届いたら onDone、失敗したときは onError。
+// ワーカーは完了・失敗・cancel() のいずれかで破棄する
+// ============================================================
+
+function startOneShot<T>(
+  request: BudgetSearchRequest,
+  pick: (msg: BudgetSearchResponse) => T | undefined,
+  handlers: { onDone: (result: T) => void; onError: (message: string) => void }
+): { cancel: () => void } {
+  const worker = new Worker(new URL("./budgetSearch.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  let finished = false;
+  const finish = () => {
+    finished = true;
+    worker.terminate();
+  };
+  const fail = (message: string) => {
+    if (finished) return;
+    finish();
+    handlers.onError(message);
+  };
+
+  worker.onmessage = (e: MessageEvent<BudgetSearchResponse>) => {
+    if (finished) return;
+    const msg = e.data;
+    const result = pick(msg);
+    if (result !== undefined) {
+      finish();
+      handlers.onDone(result);
+    } else if (msg.type === "done" && msg.outcome.kind === "error") {
+      fail(msg.outcome.message);
+    }
+  };
+  worker.onerror = (e) => {
+    e.preventDefault();
+    fail(e.message || "探索ワーカーでエラーが発生しました");
+  };
+  worker.onmessageerror = () => fail("探索ワーカーからの結果を読み取れませんでした");
+
+  worker.postMessage(request);
+
+  return {
+    cancel: () => {
+      if (!finished) finish();
+    },
+  };
+}
+
+export function startGroupSearch(
+  items: Item[],
+  group: GroupSearchConfig,
+  base: BudgetSearchConfig,
+  handlers: { onDone: (result: GroupSearchResult) => void; onError: (message: string) => void }
+): { cancel: () => void } {
+  return startOneShot({ type: "group", items, group, base }, (msg) => (msg.type === "group" ? msg.result : undefined), handlers);
+}
+
+// 店舗の横並び比較（全店分を求め終えたら1回だけ onDone）
+export function startCompareSearch(
+  restaurants: Restaurant[],
+  cond: CompareConditions,
+  handlers: { onDone: (rows: CompareRow[]) => void; onError: (message: string) => void }
+): { cancel: () => void } {
+  return startOneShot({ type: "compare", restaurants, cond }, (msg) => (msg.type === "compare" ? msg.rows : undefined), handlers);
+}
+
+// 週間ランチ計画（5日分を組み終えたら1回だけ onDone）
+export function startWeekPlan(
+  config: WeeklyPlanConfig,
+  restaurants: Restaurant[],
+  random: boolean,
+  handlers: { onDone: (days: WeeklyPlanDayResult[]) => void; onError: (message: string) => void }
+): { cancel: () => void } {
+  return startOneShot({ type: "week", config, restaurants, random }, (msg) => (msg.type === "week" ? msg.days : undefined), handlers);
+}
@@ -0,0 +1,90 @@
+import type { Restaurant, BudgetSearchConfig, BudgetSearchResult } from "./types";
+import { searchCombinations, createBudgetEnumerator } from "./budgetSearch";
+
+// ============================================================
+// 店舗の横並び比較：純関数
+// 同じ予算・条件で店ごとに「最多品数」「最高額」「ちょうどの組み合わせ数」を求める
+// ============================================================
+
+// カテゴリ・タグの条件は名前で指定し、その名前を持つ店にだけ効く（必須カテゴリがない店は「組み合わせなし」）
+export type CompareConditions = Pick<
+  BudgetSearchConfig,
+  "budget" | "maxItems" | "noDuplicates" | "saleDate" | "categoryMins" | "tagMins"
+> & {
+  categoryLimits?: Record<string, number>; // カテゴリ名 → 上限個数
+  excludedCategories?: string[]; // このカテゴリの品は使わない
+};
+
+export type CompareRow = {
+  restaurantId: string; // ワーカーから返るので Restaurant そのものではなく ID で持つ
+  maxCount: BudgetSearchResult | null; // 予算以内で品数が最も多い組み合わせ
+  maxSpend: BudgetSearchResult | null; // 予算以内で最も高額な組み合わせ
+  exactCount: number | null;           // 予算ちょうどになる組み合わせの数（数え上げられないときは null）
+  truncated: boolean;                  // 探索ノード上限で打ち切った（最多・最高が最適とは限らない）
+};
+
+// 独自UI（iframeSrc）の店も items があれば探索できるので含める
+export const isComparable = (r: Restaurant) => r.items.length > 0;
+
+export function compareConfig(restaurant: Restaurant, cond: CompareConditions): BudgetSearchConfig {
+  const excluded = new Set(cond.excludedCategories ?? []);
+  return {
+    budget: cond.budget,
+    maxItems: cond.maxItems,
+    noDuplicates: cond.noDuplicates,
+    saleDate: cond.saleDate,
+    mode: "exact",
+    requiredIds: [],
+    excludedIds: restaurant.items.filter((it) => excluded.has(it.category)).map((it) => it.id),
+    categoryLimits: cond.categoryLimits ?? {},
+    categoryMins: cond.categoryMins,
+    tagMins: cond.tagMins,
+    groupEquivalents: false,
+  };
+}
+
+export function compareRestaurants(restaurants: Restaurant[], cond: CompareConditions): CompareRow[] {
+  return restaurants.filter(isComparable).map((restaurant) => {
+    const base = compareConfig(restaurant, cond);
+    const best = (mode: BudgetSearchConfig["mode"]) => {
+      const outcome = searchCombinations(restaurant.items, { ...base, mode });
+      return outcome.kind === "ok" ? { result: outcome.results[0] ?? null, truncated: outcome.truncated } : { result: null, truncated: false };
+    };
+    const count = best("maximize-count");
+    const spend = best("maximize-price");
+    // ちょうどの件数は数え上げの総数だけ使う（結果のページは作らない）
+    const exact = createBudgetEnumerator(restaurant.items, base);
+    return {
+      restaurantId: restaurant.id,
+      maxCount: count.result,
+      maxSpend: spend.result,
+      exactCount: exact.kind === "enumerator" ? exact.total : exact.kind === "unreachable" ? 0 : null,
+      truncated: count.truncated || spend.truncated,
+    };
+  });
+}
+
+// ============================================================
+// 保存データの検証（localStorage から読んだ比較条件）
+// ============================================================
+
+const isCount = (v: unknown) => typeof v === "number" && Number.isFinite(v) && v >= 0;
+const isCounts = (v: unknown) =>
+  v === undefined || (!!v && typeof v === "object" && !Array.isArray(v) && Object.values(v).every(isCount));
+
+export function isCompareConditions(v: unknown): v is CompareConditions {
+  if (!v || typeof v !== "object") return false;
+  const o = v as Record<string, unknown>;
+  return (
+    isCount(o.budget) &&
+    Number.isInteger(o.maxItems) &&
+    (o.maxItems as number) >= 1 &&
+    (o.noDuplicates === undefined || typeof o.noDuplicates === "boolean") &&
+    (o.saleDate === undefined || (typeof o.saleDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(o.saleDate))) &&
+    isCounts(o.categoryMins) &&
+    isCounts(o.categoryLimits) &&
+    isCounts(o.tagMins) &&
+    (o.excludedCategories === undefined ||
+      (Array.isArray(o.excludedCategories) && o.excludedCategories.every((c) => typeof c === "string")))
+  );
+}
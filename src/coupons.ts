@@ -0,0 +1,116 @@
+import type { Item, Coupon } from "./types";
+
+// ============================================================
+// クーポンの適用：純関数
+// 単品にかかるクーポン（価格指定・値引き・セット）を先に当て、
+// 会計全体にかかる値引きはその後の小計に対して計算する
+// ============================================================
+
+export type CouponDiscount = {
+  couponId: string;
+  name: string;
+  amount: number; // 割引額（正の数）
+  uses: number;   // 適用した個数・セット数
+};
+
+// 対象品1個あたりの割引額
+function unitSaving(coupon: Coupon, item: Item): number {
+  const rule = coupon.rule;
+  switch (rule.kind) {
+    case "fixed-price":
+      return Math.max(0, item.price - rule.price);
+    case "amount-off":
+      return Math.min(rule.amount, item.price);
+    case "percent-off":
+      return Math.floor((item.price * rule.percent) / 100);
+    case "bundle":
+      return 0;
+  }
+}
+
+const isOrderLevel = (coupon: Coupon) =>
+  (coupon.rule.kind === "amount-off" || coupon.rule.kind === "percent-off") && !coupon.rule.itemIds;
+
+// 併用可能なクーポンの組をまとめて適用する
+function applySet(
+  items: Item[],
+  qty: Record<string, number>,
+  listPrice: number,
+  coupons: Coupon[]
+): CouponDiscount[] {
+  const findItem = (id: string) => items.find((it) => it.id === id);
+  // まだクーポンを当てていない個数（1個に単品クーポンは1枚まで）
+  const units: Record<string, number> = { ...qty };
+  const discounts: CouponDiscount[] = [];
+  const usable = coupons.filter((c) => c.minSpend === undefined || listPrice >= c.minSpend);
+
+  for (const coupon of usable.filter((c) => !isOrderLevel(c))) {
+    const rule = coupon.rule;
+    let usesLeft = coupon.maxUses ?? Infinity;
+    let amount = 0;
+    let uses = 0;
+    if (rule.kind === "bundle") {
+      const need: Record<string, number> = {};
+      for (const id of rule.itemIds) need[id] = (need[id] ?? 0) + 1;
+      const listOfBundle = rule.itemIds.reduce((s, id) => s + (findItem(id)?.price ?? 0), 0);
+      const saving = listOfBundle - rule.price;
+      if (saving > 0) {
+        uses = Math.min(usesLeft, ...Object.entries(need).map(([id, n]) => Math.floor((units[id] ?? 0) / n)));
+        for (const [id, n] of Object.entries(need)) units[id] -= n * uses;
+        amount = saving * uses;
+      }
+    } else {
+      // 割引額の大きい対象品から当てる
+      const targets = (rule.itemIds ?? [])
+        .flatMap((id) => {
+          const it = findItem(id);
+          return it ? [{ it, saving: unitSaving(coupon, it) }] : [];
+        })
+        .sort((a, b) => b.saving - a.saving);
+      for (const { it, saving } of targets) {
+        const n = Math.min(usesLeft, units[it.id] ?? 0);
+        if (n <= 0 || saving <= 0) continue;
+        units[it.id] -= n;
+        usesLeft -= n;
+        uses += n;
+        amount += saving * n;
+      }
+    }
+    if (amount > 0) discounts.push({ couponId: coupon.id, name: coupon.name, amount, uses });
+  }
+
+  let subtotal = listPrice - discounts.reduce((s, d) => s + d.amount, 0);
+  for (const coupon of usable.filter(isOrderLevel)) {
+    const rule = coupon.rule;
+    const amount =
+      rule.kind === "percent-off"
+        ? Math.floor((subtotal * rule.percent) / 100)
+        : rule.kind === "amount-off"
+        ? Math.min(rule.amount, subtotal)
+        : 0;
+    if (amount > 0) {
+      discounts.push({ couponId: coupon.id, name: coupon.name, amount, uses: 1 });
+      subtotal -= amount;
+    }
+  }
+  return discounts;
+}
+
+// 選択中のクーポンを適用した割引の内訳を返す。
+// 併用不可のクーポンがあれば「併用可能なもの全部」と「併用不可のもの単独」のうち最も安くなる方を採る
+export function applyCoupons(
+  items: Item[],
+  qty: Record<string, number>,
+  listPrice: number,
+  coupons: Coupon[]
+): CouponDiscount[] {
+  if (coupons.length === 0) return [];
+  const candidates = [
+    coupons.filter((c) => !c.exclusive),
+    ...coupons.filter((c) => c.exclusive).map((c) => [c]),
+  ];
+  const totalOf = (ds: CouponDiscount[]) => ds.reduce((s, d) => s + d.amount, 0);
+  return candidates
+    .map((set) => applySet(items, qty, listPrice, set))
+    .reduce((best, ds) => (totalOf(ds) > totalOf(best) ? ds : best), [] as CouponDiscount[]);
+}
@@ -0,0 +1,66 @@
+import type { Item } from "./types";
+import { addDays, daysBetween } from "./period";
+
+// ============================================================
+// 賞味期限・消費期限（Item.expiry の文字列）の解釈：純関数
+// 例: "消費期限 当日" / "賞味期限 10日" / "消費期限(要冷蔵) 3日" / "賞味期限 翌日 要冷蔵"
+// ============================================================
+
+export type Expiry = {
+  kind: "消費期限" | "賞味期限";
+  days: number; // 購入日からの日数（当日 = 0、翌日 = 1）
+  chilled: boolean; // 要冷蔵
+};
+
+export function parseExpiry(text: string): Expiry | null {
+  const m = /^(消費期限|賞味期限)\s*(?:\(要冷蔵\))?\s*(当日|翌日|(\d+)日)/.exec(text);
+  if (!m) return null;
+  const days = m[2] === "当日" ? 0 : m[2] === "翌日" ? 1 : Number(m[3]);
+  return { kind: m[1] as Expiry["kind"], days, chilled: text.includes("要冷蔵") };
+}
+
+// いちばん日持ちしない品（期限の書かれていない品は無視。同日なら消費期限を優先）
+export function shortestExpiry(items: Item[]): { item: Item; expiry: Expiry } | null {
+  let best: { item: Item; expiry: Expiry } | null = null;
+  for (const item of items) {
+    const expiry = item.expiry ? parseExpiry(item.expiry) : null;
+    if (!expiry) continue;
+    if (
+      !best ||
+      expiry.days < best.expiry.days ||
+      (expiry.days === best.expiry.days && expiry.kind === "消費期限" && best.expiry.kind === "賞味期限")
+    ) {
+      best = { item, expiry };
+    }
+  }
+  return best;
+}
+
+export const formatExpiryDays = (days: number) => (days === 0 ? "当日" : days === 1 ? "翌日" : `${days}日`);
+
+// ============================================================
+// 購入日と渡す日からの日持ちチェック
+// ============================================================
+
+export type ExpiryCheck = {
+  handoutDate: string;
+  earliestPurchase: string | null; // これより前に買うと期限が切れる品がある（期限のある品がなければ null）
+  latestPurchase: string;          // 渡す日当日
+  expiring: { item: Item; expiry: Expiry; expiresOn: string }[]; // 購入日に買うと渡す日までに期限が切れる品
+};
+
+// date は "YYYY-MM-DD"。期限日 = 購入日 + days（当日なら購入日）
+export function checkExpiry(items: Item[], purchaseDate: string, handoutDate: string): ExpiryCheck {
+  const parsed = items
+    .map((item) => ({ item, expiry: item.expiry ? parseExpiry(item.expiry) : null }))
+    .filter((x): x is { item: Item; expiry: Expiry } => x.expiry !== null);
+  const shortest = parsed.length > 0 ? Math.min(...parsed.map((x) => x.expiry.days)) : null;
+  return {
+    handoutDate,
+    earliestPurchase: shortest === null ? null : addDays(handoutDate, -shortest),
+    latestPurchase: handoutDate,
+    expiring: parsed
+      .map((x) => ({ ...x, expiresOn: addDays(purchaseDate, x.expiry.days) }))
+      .filter((x) => daysBetween(x.expiresOn, handoutDate) > 0),
+  };
+}
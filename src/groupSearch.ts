@@ -0,0 +1,100 @@
+import type {
+  Item,
+  BillSplit,
+  BudgetSearchConfig,
+  BudgetSearchResult,
+  GroupMember,
+  GroupSearchConfig,
+  GroupSearchResult,
+} from "./types";
+import { searchCombinations, withDiagnosis } from "./budgetSearch";
+import { newDiner } from "./split";
+
+// ============================================================
+// グループ探索：純関数
+// みんなで分ける品の代金を均等に引いた残りの予算で、1人ずつ searchCombinations を回す
+// ============================================================
+
+export function newMember(name: string, budget: number): GroupMember {
+  return { diner: newDiner(name), budget, maxItems: 3, mode: "maximize-price", requiredIds: [], excludedIds: [] };
+}
+
+// base からは販売日・注文日時など全員に共通の条件だけを引き継ぐ
+function memberConfig(member: GroupMember, budget: number, base: BudgetSearchConfig): BudgetSearchConfig {
+  return {
+    budget,
+    maxItems: member.maxItems,
+    mode: member.mode,
+    requiredIds: member.requiredIds,
+    excludedIds: member.excludedIds,
+    categoryLimits: {},
+    noDuplicates: member.noDuplicates,
+    groupEquivalents: false,
+    orderAt: base.orderAt,
+    saleDate: base.saleDate,
+  };
+}
+
+// みんなで分ける品の行・合計と、1人あたりの負担額（均等割り・端数あり）
+export function sharedCosts(items: Item[], group: GroupSearchConfig) {
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const sharedLines = Object.entries(group.shared)
+    .filter(([id, q]) => q > 0 && byId.has(id))
+    .map(([id, q]) => ({ itemId: id, groupIds: [id], qty: q, unitPrice: byId.get(id)!.price }));
+  const sharedTotal = sharedLines.reduce((s, l) => s + l.unitPrice * l.qty, 0);
+  const sharedCost = group.members.length > 0 ? sharedTotal / group.members.length : 0;
+  return { sharedLines, sharedTotal, sharedCost };
+}
+
+// 分ける品の負担額だけで予算を超えている人（探索前に弾く）
+export const overBudgetMembers = (items: Item[], group: GroupSearchConfig): GroupMember[] => {
+  const { sharedCost } = sharedCosts(items, group);
+  return group.members.filter((m) => sharedCost > m.budget);
+};
+
+// 見つからなかった人には原因の候補（relaxations）を付ける。ワーカーで実行する（budgetSearch.worker.ts）
+export function searchGroup(items: Item[], group: GroupSearchConfig, base: BudgetSearchConfig): GroupSearchResult {
+  const { sharedLines, sharedTotal, sharedCost } = sharedCosts(items, group);
+  return {
+    members: group.members.map((m) => {
+      if (sharedCost > m.budget) {
+        return { dinerId: m.diner.id, outcome: { kind: "error", message: "分ける品の負担額が予算を超えています" }, sharedCost };
+      }
+      const config = memberConfig(m, Math.floor(m.budget - sharedCost), base);
+      return {
+        dinerId: m.diner.id,
+        outcome: withDiagnosis(items, config, searchCombinations(items, config)),
+        sharedCost,
+      };
+    }),
+    sharedLines,
+    sharedTotal,
+  };
+}
+
+// 各人が選んだ組み合わせ（null = 見つからなかった人）をまとめたカートと、誰の分かの割り当て。
+// 割り当ては割り勘（BillSplit）の割合として持つ：自分の品は個数、分ける品は 個数 / 人数
+export function groupToCart(
+  group: GroupSearchConfig,
+  result: GroupSearchResult,
+  picks: (BudgetSearchResult | null)[],
+  prev: BillSplit
+): { qty: Record<string, number>; split: BillSplit } {
+  const qty: Record<string, number> = {};
+  const shares: BillSplit["shares"] = {};
+  const add = (itemId: string, dinerId: string, n: number) => {
+    qty[itemId] = (qty[itemId] ?? 0) + n;
+    shares[itemId] = { ...shares[itemId], [dinerId]: (shares[itemId]?.[dinerId] ?? 0) + n };
+  };
+  const n = group.members.length;
+  for (const line of result.sharedLines) {
+    group.members.forEach((m) => add(line.itemId, m.diner.id, line.qty / n));
+  }
+  picks.forEach((pick, i) => pick?.lines.forEach((l) => add(l.itemId, group.members[i].diner.id, l.qty)));
+  for (const id of Object.keys(qty)) qty[id] = Math.round(qty[id]);
+  const diners = group.members.map((m) => m.diner);
+  return {
+    qty,
+    split: { ...prev, diners, organizerId: diners[0]?.id ?? prev.organizerId, shares },
+  };
+}
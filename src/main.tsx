@@ -2,6 +2,17 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
 import './index.css'
+import { restaurants } from './restaurants'
+import { findUnparsablePeriods } from './period'
+
+// 開発時のみ：販売期間（Item.period）を解釈できない品を知らせる
+if (import.meta.env.DEV) {
+  for (const r of restaurants) {
+    for (const it of findUnparsablePeriods(r.items)) {
+      console.warn(`[period] ${r.id}/${it.id}: 販売期間「${it.period}」を解釈できません（販売日の絞り込みでは常に表示されます）`)
+    }
+  }
+}
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
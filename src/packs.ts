@@ -0,0 +1,74 @@
+import type { Item } from "./types";
+
+// ============================================================
+// 入り数違いの箱（一個・三個入…）の組み合わせ：純関数
+// ============================================================
+
+export type PackFamily = {
+  family: string;
+  unit: string;  // 数え方（"個" / "本"）
+  packs: Item[]; // 入り数の少ない順
+};
+
+export function packFamilies(items: Item[]): PackFamily[] {
+  const byFamily = new Map<string, PackFamily>();
+  for (const it of items) {
+    if (!it.pack) continue;
+    const f = byFamily.get(it.pack.family) ?? { family: it.pack.family, unit: it.pack.unit ?? "個", packs: [] };
+    f.packs.push(it);
+    byFamily.set(it.pack.family, f);
+  }
+  return [...byFamily.values()].map((f) => ({
+    ...f,
+    packs: [...f.packs].sort((a, b) => a.pack!.pieces - b.pack!.pieces),
+  }));
+}
+
+// 1個（1本）あたりの価格
+export const perPiece = (it: Item) => (it.pack ? it.price / it.pack.pieces : it.price);
+
+export type PackPlan = {
+  lines: { itemId: string; qty: number }[];
+  pieces: number; // 合計の個数（need より多いことがある）
+  total: number;
+};
+
+export const MAX_PACK_NEED = 999; // 必要数の上限（DP の表が need に比例して大きくなるため）
+
+// need 個以上になる箱の組み合わせのうち最安のもの。
+// 同額なら余りの少ないもの、さらに箱の数の少ないものを選ぶ。need は MAX_PACK_NEED までに丸める
+export function planPacks(packs: Item[], requested: number): PackPlan | null {
+  const need = Math.min(Math.floor(requested), MAX_PACK_NEED);
+  if (!(need > 0) || packs.length === 0) return null;
+  const sizes = packs.map((p) => p.pack?.pieces ?? 1);
+  const limit = need + Math.max(...sizes) - 1; // これより多く買うと必ず1箱減らせる
+  // dp[n] = ちょうど n 個にする最安（cost, 箱数, 最後に足した箱）
+  const dp: ({ cost: number; boxes: number; last: number } | null)[] = Array(limit + 1).fill(null);
+  dp[0] = { cost: 0, boxes: 0, last: -1 };
+  for (let n = 1; n <= limit; n++) {
+    packs.forEach((p, i) => {
+      const prev = n >= sizes[i] ? dp[n - sizes[i]] : null;
+      if (!prev) return;
+      const cand = { cost: prev.cost + p.price, boxes: prev.boxes + 1, last: i };
+      const cur = dp[n];
+      if (!cur || cand.cost < cur.cost || (cand.cost === cur.cost && cand.boxes < cur.boxes)) dp[n] = cand;
+    });
+  }
+  let best = -1;
+  for (let n = need; n <= limit; n++) {
+    const d = dp[n];
+    if (d && (best < 0 || d.cost < dp[best]!.cost)) best = n;
+  }
+  if (best < 0) return null;
+
+  const qty = new Map<string, number>();
+  for (let n = best; n > 0; n -= sizes[dp[n]!.last]) {
+    const id = packs[dp[n]!.last].id;
+    qty.set(id, (qty.get(id) ?? 0) + 1);
+  }
+  return {
+    lines: packs.filter((p) => qty.has(p.id)).map((p) => ({ itemId: p.id, qty: qty.get(p.id)! })).reverse(),
+    pieces: best,
+    total: dp[best]!.cost,
+  };
+}
@@ -0,0 +1,185 @@
+import type { Item, Dekad, SeasonPoint, SalesPeriod, SeasonalEvent } from "./types";
+import { WEEKDAYS } from "./availability";
+
+// ============================================================
+// 販売期間の解釈と判定：純関数
+// Item.period の「5月中旬〜9月中旬」などを SalesPeriod に変換し、
+// 指定日に販売中かどうかを判定する
+// ============================================================
+
+const POINT = String.raw`(\d{1,2})月(上旬|中旬|下旬)?`;
+// 「M月X旬〜M月X旬」「M月〜M月」「M月X旬限定」など
+const PERIOD_RE = new RegExp(`^${POINT}(?:[〜~]${POINT})?(.*)$`);
+
+const toHalfWidth = (s: string) =>
+  s.replace(/[０-９]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0xfee0)).replace(/[～〜]/g, "〜").replace(/\s/g, "");
+
+function toPoint(month: string, dekad: string | undefined): SeasonPoint | null {
+  const m = Number(month);
+  if (m < 1 || m > 12) return null;
+  return dekad ? { month: m, dekad: dekad as Dekad } : { month: m };
+}
+
+// 「お彼岸のみ」「お盆限定」「9月十五夜限定」（月の前置きは目安なので読み捨てる。十五夜は10月のこともある）
+const EVENT_RE = /^(?:\d{1,2}月)?(お彼岸|お盆|十五夜)(?:限定|のみ)?$/;
+
+// 解釈できない文字列は null
+export function parsePeriod(text: string): SalesPeriod | null {
+  const event = EVENT_RE.exec(toHalfWidth(text));
+  if (event) return { event: event[1] as SeasonalEvent };
+  const match = PERIOD_RE.exec(toHalfWidth(text));
+  if (!match) return null;
+  const [, m1, d1, m2, d2, rest] = match;
+  if (rest !== "" && !/(限定|のみ)$/.test(rest)) return null;
+  const from = toPoint(m1, d1);
+  const to = m2 ? toPoint(m2, d2) : from;
+  return from && to ? { from, to } : null;
+}
+
+// 月日を MMDD の整数にする（比較用）
+const startOf = (p: SeasonPoint) => p.month * 100 + (p.dekad === "中旬" ? 11 : p.dekad === "下旬" ? 21 : 1);
+const endOf = (p: SeasonPoint) => p.month * 100 + (p.dekad === "上旬" ? 10 : p.dekad === "中旬" ? 20 : 31);
+
+// ============================================================
+// 行事の日付（その年の実際の日付を計算する）
+// ============================================================
+
+// 春分日・秋分日（1980〜2099年の近似式。国立天文台の暦要項と一致する）
+export function equinoxes(year: number): { spring: string; autumn: string } {
+  const base = 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4);
+  const day = (c: number) => String(Math.floor(c + base)).padStart(2, "0");
+  return { spring: `${year}-03-${day(20.8431)}`, autumn: `${year}-09-${day(23.2488)}` };
+}
+
+// 朔（新月）の日付（日本時間）。Meeus『Astronomical Algorithms』49章の主要項のみで、誤差は数分程度
+// k は 2000年1月6日の朔を 0 とする朔望月の番号
+function newMoonDate(k: number): string {
+  const rad = Math.PI / 180;
+  const T = k / 1236.85;
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+  const M = (2.5534 + 29.1053567 * k - 0.0000014 * T * T) * rad;
+  const Mp = (201.5643 + 385.81693528 * k + 0.0107582 * T * T + 0.00001238 * T ** 3) * rad;
+  const F = (160.7108 + 390.67050284 * k - 0.0016118 * T * T - 0.00000227 * T ** 3) * rad;
+  const Om = (124.7746 - 1.56375588 * k + 0.0020672 * T * T) * rad;
+  const jde =
+    2451550.09766 + 29.530588861 * k + 0.00015437 * T * T - 0.00000015 * T ** 3 -
+    0.4072 * Math.sin(Mp) +
+    0.17241 * E * Math.sin(M) +
+    0.01608 * Math.sin(2 * Mp) +
+    0.01039 * Math.sin(2 * F) +
+    0.00739 * E * Math.sin(Mp - M) -
+    0.00514 * E * Math.sin(Mp + M) +
+    0.00208 * E * E * Math.sin(2 * M) -
+    0.00111 * Math.sin(Mp - 2 * F) -
+    0.00057 * Math.sin(Mp + 2 * F) +
+    0.00056 * E * Math.sin(2 * Mp + M) -
+    0.00042 * Math.sin(3 * Mp) +
+    0.00042 * E * Math.sin(M + 2 * F) +
+    0.00038 * E * Math.sin(M - 2 * F) -
+    0.00024 * E * Math.sin(2 * Mp - M) -
+    0.00017 * Math.sin(Om);
+  // ユリウス日 → 日本時間（UTC+9）の日付
+  return new Date((jde - 2440587.5) * 86400000 + 9 * 3600000).toISOString().slice(0, 10);
+}
+
+// 十五夜（旧暦8月15日）。旧暦8月は秋分を含む月なので、秋分の日以前で最後の朔の日を1日として15日目
+export function jugoya(year: number): string {
+  const { autumn } = equinoxes(year);
+  const k0 = Math.floor((year + 0.72 - 2000) * 12.3685);
+  const start = [k0 + 1, k0, k0 - 1].map(newMoonDate).find((d) => d <= autumn)!;
+  return addDays(start, 14);
+}
+
+// 行事の期間（from〜to、両端を含む）。お彼岸は春・秋の2回
+// お彼岸 = 春分・秋分の日を中日とする前後3日の7日間
+// お盆 = 8月13日〜16日（月遅れ盆。東京の一部などの7月盆は扱わない）
+// 十五夜 = 当日のみ（9月中旬〜10月上旬）
+export function eventRanges(event: SeasonalEvent, year: number): { from: string; to: string }[] {
+  if (event === "お盆") return [{ from: `${year}-08-13`, to: `${year}-08-16` }];
+  if (event === "十五夜") {
+    const day = jugoya(year);
+    return [{ from: day, to: day }];
+  }
+  const { spring, autumn } = equinoxes(year);
+  return [spring, autumn].map((d) => ({ from: addDays(d, -3), to: addDays(d, 3) }));
+}
+
+// date は "YYYY-MM-DD"
+export function isInPeriod(period: SalesPeriod, date: string): boolean {
+  if ("event" in period) {
+    return eventRanges(period.event, Number(date.slice(0, 4))).some((r) => date >= r.from && date <= r.to);
+  }
+  const [, month, day] = date.split("-").map(Number);
+  const md = month * 100 + day;
+  const from = startOf(period.from);
+  const to = endOf(period.to);
+  return from <= to ? md >= from && md <= to : md >= from || md <= to;
+}
+
+// 販売期間のない品は通年扱い。解釈できない期間の品も（判定できないので）販売中とみなす
+export function isOnSaleOn(item: Item, date: string): boolean {
+  if (!item.period) return true;
+  const period = parsePeriod(item.period);
+  return period === null || isInPeriod(period, date);
+}
+
+// 開発時のチェック用：period を解釈できない品
+export const findUnparsablePeriods = (items: Item[]) =>
+  items.filter((it) => it.period !== undefined && parsePeriod(it.period) === null);
+
+// ローカル時刻での "YYYY-MM-DD"
+export function dateString(date: Date): string {
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const dd = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${mm}-${dd}`;
+}
+
+// "YYYY-MM-DD" の n 日後（負なら前）
+export function addDays(date: string, n: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+// b − a の日数
+export const daysBetween = (a: string, b: string) =>
+  Math.round((Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / 86400000);
+
+// "2025-03-20" → "3/20(木)"
+export function formatDay(date: string): string {
+  const [, m, d] = date.split("-").map(Number);
+  return `${m}/${d}(${WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()]})`;
+}
+
+// date の翌日から days 日以内に販売が始まる日（販売中の品・通年品・期間を解釈できない品は null）
+export function nextSaleStart(item: Item, date: string, days: number): string | null {
+  const period = item.period ? parsePeriod(item.period) : null;
+  if (!period || isInPeriod(period, date)) return null;
+  for (let i = 1; i <= days; i++) {
+    const d = addDays(date, i);
+    if (isInPeriod(period, d)) return d;
+  }
+  return null;
+}
+
+// 年間カレンダー用：year の各旬（1月上旬〜12月下旬の36区間）に1日でも販売日があるか
+export function dekadFlags(period: SalesPeriod, year: number): boolean[] {
+  const flags: boolean[] = [];
+  for (let month = 1; month <= 12; month++) {
+    const last = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    for (const [from, to] of [[1, 10], [11, 20], [21, last]]) {
+      let on = false;
+      for (let day = from; day <= to && !on; day++) {
+        on = isInPeriod(period, `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`);
+      }
+      flags.push(on);
+    }
+  }
+  return flags;
+}
+
+// date が何番目の旬か（0 = 1月上旬 〜 35 = 12月下旬）
+export function dekadIndex(date: string): number {
+  const [, month, day] = date.split("-").map(Number);
+  return (month - 1) * 3 + (day <= 10 ? 0 : day <= 20 ? 1 : 2);
+}
@@ -0,0 +1,48 @@
+import type { Restaurant, SavedCombo } from "./types";
+import { addDays } from "./period";
+
+// ============================================================
+// 価格改定の履歴：純関数
+// items は最新価格。priceRevisions の before を新しい順に巻き戻して過去のメニューを作る
+// ============================================================
+
+// 指定日（"YYYY-MM-DD"。null = 最新）時点のメニュー
+export function menuAsOf(restaurant: Restaurant, date: string | null): Restaurant {
+  const undo = (restaurant.priceRevisions ?? []).filter((r) => date !== null && r.date > date);
+  if (undo.length === 0) return restaurant;
+  const prices: Record<string, number> = {};
+  // 古い改定の before ほど過去の価格なので、新しい順に上書きしていく
+  for (const r of [...undo].sort((a, b) => b.date.localeCompare(a.date))) Object.assign(prices, r.before);
+  return {
+    ...restaurant,
+    items: restaurant.items.map((it) => (prices[it.id] !== undefined ? { ...it, price: prices[it.id] } : it)),
+  };
+}
+
+const dayBefore = (date: string) => addDays(date, -1);
+
+// 価格が一定だった期間ごとの代表日（推移グラフの各点）。改定がなければ空
+export function priceEras(restaurant: Restaurant): { label: string; asOf: string | null }[] {
+  const revisions = [...(restaurant.priceRevisions ?? [])].sort((a, b) => a.date.localeCompare(b.date));
+  if (revisions.length === 0) return [];
+  return [
+    { label: `〜${dayBefore(revisions[0].date)}`, asOf: dayBefore(revisions[0].date) },
+    ...revisions.map((r, i) => ({
+      label: `${r.date}〜`,
+      asOf: i === revisions.length - 1 ? null : r.date,
+    })),
+  ];
+}
+
+// 保存時の単価で計算した合計（割引前）。単価の記録がない古い保存データは null
+export function savedListPrice(save: SavedCombo): number | null {
+  const prices = save.prices;
+  if (!prices) return null;
+  let total = 0;
+  for (const [id, q] of Object.entries(save.qty)) {
+    const ids = [id, ...(save.addonSelections?.[id] ?? [])];
+    if (ids.some((x) => prices[x] === undefined)) return null;
+    total += ids.reduce((s, x) => s + prices[x], 0) * q;
+  }
+  return total;
+}
@@ -1,6 +1,7 @@
 import type { Restaurant } from "../types";
 
-// 価格はすべて税込・2025〜2026年時点の公式メニューに基づく
+// 価格はすべて税込（店内飲食 10%）・2025〜2026年時点の公式メニューに基づく
+// 持ち帰りの価格は本体価格から 8% で計算する（src/tax.ts）
 // 一部店舗限定メニューや期間限定品は除外しています
 
 const hidakaya: Restaurant = {
@@ -8,6 +9,7 @@ const hidakaya: Restaurant = {
   name: "日高屋",
   categories: ["セット", "定食", "ラーメン", "単品", "おつまみ", "トッピング"],
   defaultTargets: { budget: 1000 },
+  takeout: true,
   accentColor: "#e3231d",
 
   // セットカテゴリを表形式で表示する設定
@@ -23,43 +25,44 @@ const hidakaya: Restaurant = {
   items: [
     // ──── セット（28種 + ラ・餃・チャ） ────
     // ※ セットのタグ体系（ramen:xxx, side:xxx）はテーブルUIと連動しているため変更禁止
+    // components = セットの中身（単品メニューのID → 個数）。単品で頼んだ場合との差額・セットへのまとめに使う
     // 半チャーハン × 4種
-    { id: "hd_set_chuka_han",    name: "中華そば＋半チャーハンセット",      category: "セット", price: 710,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["chuka",    "hancyahan"],       image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/f82a2b78-141e-4f04-9df2-4e7a10a728df" },
-    { id: "hd_set_tonko_han",    name: "とんこつ＋半チャーハンセット",      category: "セット", price: 800,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["tonkotsu", "hancyahan"],       image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/4f696911-e86c-46ef-b0ec-3bcd4e1b25de" },
-    { id: "hd_set_tanmen_han",   name: "タンメン＋半チャーハンセット",      category: "セット", price: 910,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["tanmen",   "hancyahan"],       image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/4e8dfd22-e1e8-45ef-9429-dbf74020905e" },
-    { id: "hd_set_miso_han",     name: "味噌ラーメン＋半チャーハンセット",  category: "セット", price: 900,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["miso",     "hancyahan"],       image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/178b7242-af87-4851-a46d-b5358e462328" },
+    { id: "hd_set_chuka_han",    name: "中華そば＋半チャーハンセット",      category: "セット", price: 710,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["chuka",    "hancyahan"], components: { hd_chuka_soba: 1, hd_han_chahan: 1 },       image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/f82a2b78-141e-4f04-9df2-4e7a10a728df" },
+    { id: "hd_set_tonko_han",    name: "とんこつ＋半チャーハンセット",      category: "セット", price: 800,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["tonkotsu", "hancyahan"], components: { hd_tonkotsu: 1, hd_han_chahan: 1 },       image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/4f696911-e86c-46ef-b0ec-3bcd4e1b25de" },
+    { id: "hd_set_tanmen_han",   name: "タンメン＋半チャーハンセット",      category: "セット", price: 910,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["tanmen",   "hancyahan"], components: { hd_tanmen: 1, hd_han_chahan: 1 },       image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/4e8dfd22-e1e8-45ef-9429-dbf74020905e" },
+    { id: "hd_set_miso_han",     name: "味噌ラーメン＋半チャーハンセット",  category: "セット", price: 900,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["miso",     "hancyahan"], components: { hd_miso_ramen: 1, hd_han_chahan: 1 },       image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/178b7242-af87-4851-a46d-b5358e462328" },
     // 焼き鳥丼 × 4種
-    { id: "hd_set_chuka_yaki",   name: "中華そば＋焼き鳥丼セット",          category: "セット", price: 730,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["chuka",    "yakitori"],        image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/d6b73660-86f3-45c9-85c2-ec19592e2962" },
-    { id: "hd_set_tonko_yaki",   name: "とんこつ＋焼き鳥丼セット",          category: "セット", price: 820,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["tonkotsu", "yakitori"],        image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/f29b45ba-a9a6-4828-8ef7-cbad8619890c" },
-    { id: "hd_set_tanmen_yaki",  name: "タンメン＋焼き鳥丼セット",          category: "セット", price: 930,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["tanmen",   "yakitori"],        image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/7c446dcb-5bee-4a04-b37b-0bdc4fbe43d9" },
-    { id: "hd_set_miso_yaki",    name: "味噌ラーメン＋焼き鳥丼セット",      category: "セット", price: 920,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["miso",     "yakitori"],        image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/a9b3f59e-a4d1-497c-b70e-69702690fcf1" },
+    { id: "hd_set_chuka_yaki",   name: "中華そば＋焼き鳥丼セット",          category: "セット", price: 730,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["chuka",    "yakitori"], components: { hd_chuka_soba: 1, hd_yakitori_don: 1 },        image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/d6b73660-86f3-45c9-85c2-ec19592e2962" },
+    { id: "hd_set_tonko_yaki",   name: "とんこつ＋焼き鳥丼セット",          category: "セット", price: 820,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["tonkotsu", "yakitori"], components: { hd_tonkotsu: 1, hd_yakitori_don: 1 },        image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/f29b45ba-a9a6-4828-8ef7-cbad8619890c" },
+    { id: "hd_set_tanmen_yaki",  name: "タンメン＋焼き鳥丼セット",          category: "セット", price: 930,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["tanmen",   "yakitori"], components: { hd_tanmen: 1, hd_yakitori_don: 1 },        image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/7c446dcb-5bee-4a04-b37b-0bdc4fbe43d9" },
+    { id: "hd_set_miso_yaki",    name: "味噌ラーメン＋焼き鳥丼セット",      category: "セット", price: 920,  tags: ["セット", "ラーメン", "ご飯"],          setCell: ["miso",     "yakitori"], components: { hd_miso_ramen: 1, hd_yakitori_don: 1 },        image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/a9b3f59e-a4d1-497c-b70e-69702690fcf1" },
     // 餃子 × 4種
-    { id: "hd_set_chuka_gyo",    name: "中華そば＋餃子セット",              category: "セット", price: 700,  tags: ["セット", "ラーメン", "餃子"],          setCell: ["chuka",    "gyoza"],           image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/3b215987-686d-49b0-a609-37e68fe47b34" },
-    { id: "hd_set_tonko_gyo",    name: "とんこつ＋餃子セット",              category: "セット", price: 790,  tags: ["セット", "ラーメン", "餃子"],          setCell: ["tonkotsu", "gyoza"],           image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/485a7b06-e893-4597-8327-2f31d5deca8c" },
-    { id: "hd_set_tanmen_gyo",   name: "タンメン＋餃子セット",              category: "セット", price: 900,  tags: ["セット", "ラーメン", "餃子"],          setCell: ["tanmen",   "gyoza"],           image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/9c3c4fa8-0650-480f-b069-5f3ebd55327b" },
-    { id: "hd_set_miso_gyo",     name: "味噌ラーメン＋餃子セット",          category: "セット", price: 890,  tags: ["セット", "ラーメン", "餃子"],          setCell: ["miso",     "gyoza"],           image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/c5b1b6e0-2c77-444e-9da9-94d2cba52e9b" },
+    { id: "hd_set_chuka_gyo",    name: "中華そば＋餃子セット",              category: "セット", price: 700,  tags: ["セット", "ラーメン", "餃子"],          setCell: ["chuka",    "gyoza"], components: { hd_chuka_soba: 1, hd_gyoza_6: 1 },           image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/3b215987-686d-49b0-a609-37e68fe47b34" },
+    { id: "hd_set_tonko_gyo",    name: "とんこつ＋餃子セット",              category: "セット", price: 790,  tags: ["セット", "ラーメン", "餃子"],          setCell: ["tonkotsu", "gyoza"], components: { hd_tonkotsu: 1, hd_gyoza_6: 1 },           image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/485a7b06-e893-4597-8327-2f31d5deca8c" },
+    { id: "hd_set_tanmen_gyo",   name: "タンメン＋餃子セット",              category: "セット", price: 900,  tags: ["セット", "ラーメン", "餃子"],          setCell: ["tanmen",   "gyoza"], components: { hd_tanmen: 1, hd_gyoza_6: 1 },           image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/9c3c4fa8-0650-480f-b069-5f3ebd55327b" },
+    { id: "hd_set_miso_gyo",     name: "味噌ラーメン＋餃子セット",          category: "セット", price: 890,  tags: ["セット", "ラーメン", "餃子"],          setCell: ["miso",     "gyoza"], components: { hd_miso_ramen: 1, hd_gyoza_6: 1 },           image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/c5b1b6e0-2c77-444e-9da9-94d2cba52e9b" },
     // 半チャーハン+餃子3個 × 4種
-    { id: "hd_set_chuka_hg3",    name: "中華そば＋半チャーハン＋餃子3個セット",      category: "セット", price: 860,  tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["chuka",    "hancyahan_gyoza3"], image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/845575e7-6c4a-40f1-814c-2e8461f36c11" },
-    { id: "hd_set_tonko_hg3",    name: "とんこつ＋半チャーハン＋餃子3個セット",      category: "セット", price: 950,  tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tonkotsu", "hancyahan_gyoza3"], image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/fc8c84d3-40ae-43e8-ac39-991d7f85e6d8" },
-    { id: "hd_set_tanmen_hg3",   name: "タンメン＋半チャーハン＋餃子3個セット",      category: "セット", price: 1060, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tanmen",   "hancyahan_gyoza3"], image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/cddc42fd-7b3b-4084-9274-f7a41e696a3e" },
-    { id: "hd_set_miso_hg3",     name: "味噌ラーメン＋半チャーハン＋餃子3個セット",  category: "セット", price: 1050, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["miso",     "hancyahan_gyoza3"], image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/49858d1a-4025-45ae-b300-6d1fac4eba78" },
+    { id: "hd_set_chuka_hg3",    name: "中華そば＋半チャーハン＋餃子3個セット",      category: "セット", price: 860,  tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["chuka",    "hancyahan_gyoza3"], components: { hd_chuka_soba: 1, hd_han_chahan: 1, hd_gyoza_3: 1 }, image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/845575e7-6c4a-40f1-814c-2e8461f36c11" },
+    { id: "hd_set_tonko_hg3",    name: "とんこつ＋半チャーハン＋餃子3個セット",      category: "セット", price: 950,  tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tonkotsu", "hancyahan_gyoza3"], components: { hd_tonkotsu: 1, hd_han_chahan: 1, hd_gyoza_3: 1 }, image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/fc8c84d3-40ae-43e8-ac39-991d7f85e6d8" },
+    { id: "hd_set_tanmen_hg3",   name: "タンメン＋半チャーハン＋餃子3個セット",      category: "セット", price: 1060, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tanmen",   "hancyahan_gyoza3"], components: { hd_tanmen: 1, hd_han_chahan: 1, hd_gyoza_3: 1 }, image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/cddc42fd-7b3b-4084-9274-f7a41e696a3e" },
+    { id: "hd_set_miso_hg3",     name: "味噌ラーメン＋半チャーハン＋餃子3個セット",  category: "セット", price: 1050, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["miso",     "hancyahan_gyoza3"], components: { hd_miso_ramen: 1, hd_han_chahan: 1, hd_gyoza_3: 1 }, image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/49858d1a-4025-45ae-b300-6d1fac4eba78" },
     // 半チャーハン+餃子6個 × 4種
-    { id: "hd_set_chuka_hg6",    name: "中華そば＋半チャーハン＋餃子6個セット",      category: "セット", price: 990,  tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["chuka",    "hancyahan_gyoza6"], image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/0ab491ad-3303-4e54-b496-d4d56d5cb56a" },
-    { id: "hd_set_tonko_hg6",    name: "とんこつ＋半チャーハン＋餃子6個セット",      category: "セット", price: 1080, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tonkotsu", "hancyahan_gyoza6"], image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/26217e02-a35e-4903-b1c5-ba3155515ac0" },
-    { id: "hd_set_tanmen_hg6",   name: "タンメン＋半チャーハン＋餃子6個セット",      category: "セット", price: 1190, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tanmen",   "hancyahan_gyoza6"], image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/324f03a2-986c-4d27-86b1-4d3fa867bc94" },
-    { id: "hd_set_miso_hg6",     name: "味噌ラーメン＋半チャーハン＋餃子6個セット",  category: "セット", price: 1180, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["miso",     "hancyahan_gyoza6"], image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/5c27c393-f757-4adb-8955-9407f8243b07" },
+    { id: "hd_set_chuka_hg6",    name: "中華そば＋半チャーハン＋餃子6個セット",      category: "セット", price: 990,  tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["chuka",    "hancyahan_gyoza6"], components: { hd_chuka_soba: 1, hd_han_chahan: 1, hd_gyoza_6: 1 }, image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/0ab491ad-3303-4e54-b496-d4d56d5cb56a" },
+    { id: "hd_set_tonko_hg6",    name: "とんこつ＋半チャーハン＋餃子6個セット",      category: "セット", price: 1080, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tonkotsu", "hancyahan_gyoza6"], components: { hd_tonkotsu: 1, hd_han_chahan: 1, hd_gyoza_6: 1 }, image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/26217e02-a35e-4903-b1c5-ba3155515ac0" },
+    { id: "hd_set_tanmen_hg6",   name: "タンメン＋半チャーハン＋餃子6個セット",      category: "セット", price: 1190, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tanmen",   "hancyahan_gyoza6"], components: { hd_tanmen: 1, hd_han_chahan: 1, hd_gyoza_6: 1 }, image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/324f03a2-986c-4d27-86b1-4d3fa867bc94" },
+    { id: "hd_set_miso_hg6",     name: "味噌ラーメン＋半チャーハン＋餃子6個セット",  category: "セット", price: 1180, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["miso",     "hancyahan_gyoza6"], components: { hd_miso_ramen: 1, hd_han_chahan: 1, hd_gyoza_6: 1 }, image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/5c27c393-f757-4adb-8955-9407f8243b07" },
     // 焼き鳥丼+餃子3個 × 4種
-    { id: "hd_set_chuka_yg3",    name: "中華そば＋焼き鳥丼＋餃子3個セット",          category: "セット", price: 880,  tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["chuka",    "yakitori_gyoza3"],  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/c1b6fe18-506e-4721-b437-163aa8f298d9" },
-    { id: "hd_set_tonko_yg3",    name: "とんこつ＋焼き鳥丼＋餃子3個セット",          category: "セット", price: 970,  tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tonkotsu", "yakitori_gyoza3"],  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/57dba71d-b8d9-4be7-8c3d-427570e7323b" },
-    { id: "hd_set_tanmen_yg3",   name: "タンメン＋焼き鳥丼＋餃子3個セット",          category: "セット", price: 1080, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tanmen",   "yakitori_gyoza3"],  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/8f3c14a4-9b31-43b0-9046-169eb5955002" },
-    { id: "hd_set_miso_yg3",     name: "味噌ラーメン＋焼き鳥丼＋餃子3個セット",      category: "セット", price: 1070, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["miso",     "yakitori_gyoza3"],  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/c4d8739f-379c-42a1-919b-4e4cbf1efe14" },
+    { id: "hd_set_chuka_yg3",    name: "中華そば＋焼き鳥丼＋餃子3個セット",          category: "セット", price: 880,  tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["chuka",    "yakitori_gyoza3"], components: { hd_chuka_soba: 1, hd_yakitori_don: 1, hd_gyoza_3: 1 },  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/c1b6fe18-506e-4721-b437-163aa8f298d9" },
+    { id: "hd_set_tonko_yg3",    name: "とんこつ＋焼き鳥丼＋餃子3個セット",          category: "セット", price: 970,  tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tonkotsu", "yakitori_gyoza3"], components: { hd_tonkotsu: 1, hd_yakitori_don: 1, hd_gyoza_3: 1 },  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/57dba71d-b8d9-4be7-8c3d-427570e7323b" },
+    { id: "hd_set_tanmen_yg3",   name: "タンメン＋焼き鳥丼＋餃子3個セット",          category: "セット", price: 1080, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tanmen",   "yakitori_gyoza3"], components: { hd_tanmen: 1, hd_yakitori_don: 1, hd_gyoza_3: 1 },  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/8f3c14a4-9b31-43b0-9046-169eb5955002" },
+    { id: "hd_set_miso_yg3",     name: "味噌ラーメン＋焼き鳥丼＋餃子3個セット",      category: "セット", price: 1070, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["miso",     "yakitori_gyoza3"], components: { hd_miso_ramen: 1, hd_yakitori_don: 1, hd_gyoza_3: 1 },  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/c4d8739f-379c-42a1-919b-4e4cbf1efe14" },
     // 焼き鳥丼+餃子6個 × 4種
-    { id: "hd_set_chuka_yg6",    name: "中華そば＋焼き鳥丼＋餃子6個セット",          category: "セット", price: 1010, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["chuka",    "yakitori_gyoza6"],  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/e1cfa74d-c51b-46e6-8053-e60edb6cc392" },
-    { id: "hd_set_tonko_yg6",    name: "とんこつ＋焼き鳥丼＋餃子6個セット",          category: "セット", price: 1100, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tonkotsu", "yakitori_gyoza6"],  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/4808068c-34a3-4839-8a54-7801a247a9a4" },
-    { id: "hd_set_tanmen_yg6",   name: "タンメン＋焼き鳥丼＋餃子6個セット",          category: "セット", price: 1210, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tanmen",   "yakitori_gyoza6"],  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/3da4a7c2-8159-4b68-a75c-b11f3175955d" },
-    { id: "hd_set_miso_yg6",     name: "味噌ラーメン＋焼き鳥丼＋餃子6個セット",      category: "セット", price: 1200, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["miso",     "yakitori_gyoza6"],  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/1c0237fa-dffc-4f49-ac44-6ae2fb175736" },
+    { id: "hd_set_chuka_yg6",    name: "中華そば＋焼き鳥丼＋餃子6個セット",          category: "セット", price: 1010, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["chuka",    "yakitori_gyoza6"], components: { hd_chuka_soba: 1, hd_yakitori_don: 1, hd_gyoza_6: 1 },  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/e1cfa74d-c51b-46e6-8053-e60edb6cc392" },
+    { id: "hd_set_tonko_yg6",    name: "とんこつ＋焼き鳥丼＋餃子6個セット",          category: "セット", price: 1100, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tonkotsu", "yakitori_gyoza6"], components: { hd_tonkotsu: 1, hd_yakitori_don: 1, hd_gyoza_6: 1 },  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/4808068c-34a3-4839-8a54-7801a247a9a4" },
+    { id: "hd_set_tanmen_yg6",   name: "タンメン＋焼き鳥丼＋餃子6個セット",          category: "セット", price: 1210, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["tanmen",   "yakitori_gyoza6"], components: { hd_tanmen: 1, hd_yakitori_don: 1, hd_gyoza_6: 1 },  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/3da4a7c2-8159-4b68-a75c-b11f3175955d" },
+    { id: "hd_set_miso_yg6",     name: "味噌ラーメン＋焼き鳥丼＋餃子6個セット",      category: "セット", price: 1200, tags: ["セット", "ラーメン", "ご飯", "餃子"], setCell: ["miso",     "yakitori_gyoza6"], components: { hd_miso_ramen: 1, hd_yakitori_don: 1, hd_gyoza_6: 1 },  image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/1c0237fa-dffc-4f49-ac44-6ae2fb175736" },
     // 単独セット
-    { id: "hd_ragyo_cha",        name: "半ラ・餃3・半チャのセット",                   category: "セット", price: 690,  tags: ["special", "セット", "ラーメン", "ご飯", "餃子"],                                    image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/dde51586-705c-43ae-8f81-f21abc98060b" },
+    { id: "hd_ragyo_cha",        name: "半ラ・餃3・半チャのセット",                   category: "セット", price: 690,  tags: ["special", "セット", "ラーメン", "ご飯", "餃子"], components: { hd_han_ramen: 1, hd_gyoza_3: 1, hd_han_chahan: 1 },                                    image: "https://hidakaya.hiday.co.jp/hits/outimages/picture/dde51586-705c-43ae-8f81-f21abc98060b" },
 
     // ──── 定食（安い順、X→X+αをまとめて隣接）────
     // タグ: 1つ目=カテゴリ名「定食」、全品に「ご飯」付き、2つ目以降=特徴
@@ -1,6 +1,10 @@
 // 新しいレストランを追加するときは：
 // 1. このフォルダに xxx.ts を作成
 // 2. ここでimportしてrestaurants配列に追加するだけ
+//
+// 価格を改定するときは：
+// price を新しい価格に書き換え、priceRevisions に { date: 改定日, before: { id: 改定前の価格 } } を追記する
+// （上書きだけだと保存済みの組み合わせの「保存時の金額」や過去時点のメニューが再現できない）
 
 import saizeriya from "./saizeriya";
 import hidakaya from "./hidakaya";
@@ -1,6 +1,7 @@
 import type { Restaurant } from "../types";
 
-// 価格はすべて税込・2026年5月7日価格改定後
+// 価格はすべて税込（店内飲食 10%）・2026年5月7日価格改定後
+// 持ち帰りの価格は本体価格から 8% で計算する（src/tax.ts）
 // 出典: https://japan.kfc.co.jp/news_release/8147
 // ※ 期間限定品「ザ・アメリカンバーガーズ」「レモン香るパリパリ旨塩チキン」は数量限定
 
@@ -10,6 +11,7 @@ const kfc: Restaurant = {
   iframeSrc: "./kfc-sim.html",
   categories: ["バーガー", "チキン", "ツイスター", "サイドメニュー", "ドリンク"],
   defaultTargets: { budget: 1500 },
+  takeout: true,
   tagOrder: ["バーガー", "期間限定", "ランチ", "辛口", "チーズ", "ダブル", "チキン", "パック", "ツイスター", "ポテト", "サイドメニュー", "デザート", "ドリンク"],
 
   items: [
@@ -24,8 +26,8 @@ const kfc: Restaurant = {
     { id: "kfc_burger_avocado",     name: "TEXAS style スパイシーアボカドフィレバーガー",        category: "バーガー", price: 580,  tags: ["バーガー", "期間限定", "辛口"] },
     { id: "kfc_burger_doubledown",  name: "LAS VEGAS style ダブルダウンフィレバーガー",          category: "バーガー", price: 790,  tags: ["バーガー", "期間限定", "ダブル"] },
     // ──── ケンタランチ550コンビ（10:00〜15:00）────
-    { id: "kfc_lunch_fillet",       name: "チキンフィレバーガー＋ビスケット（ランチ）",           category: "バーガー", price: 550,  tags: ["バーガー", "ランチ"] },
-    { id: "kfc_lunch_wafuu",        name: "和風チキンカツバーガー＋ビスケット（ランチ）",          category: "バーガー", price: 550,  tags: ["バーガー", "ランチ"] },
+    { id: "kfc_lunch_fillet",       name: "チキンフィレバーガー＋ビスケット（ランチ）",           category: "バーガー", price: 550,  tags: ["バーガー", "ランチ"], availability: [{ from: "10:00", to: "15:00" }] },
+    { id: "kfc_lunch_wafuu",        name: "和風チキンカツバーガー＋ビスケット（ランチ）",          category: "バーガー", price: 550,  tags: ["バーガー", "ランチ"], availability: [{ from: "10:00", to: "15:00" }] },
 
     // ──── チキン（定番） ────
     { id: "kfc_chicken_original",   name: "オリジナルチキン",                                  category: "チキン", price: 330,   tags: ["チキン", "定番"] },
@@ -63,6 +65,13 @@ const kfc: Restaurant = {
     { id: "kfc_drink_l",            name: "ドリンク(L)",                                          category: "ドリンク", price: 340,  tags: ["ドリンク"] },
     { id: "kfc_coffee",             name: "コーヒー",                                              category: "ドリンク", price: 290,  tags: ["ドリンク"] },
   ],
+
+  // クーポン・キャンペーン（〜6/2）
+  coupons: [
+    { id: "kfc_cp_crispy",   name: "カーネルクリスピー半額キャンペーン",    until: "6/2", rule: { kind: "fixed-price", itemIds: ["kfc_crispy"], price: 145 } },
+    { id: "kfc_cp_biscuit",  name: "ビスケット半額 No.932",                until: "6/2", rule: { kind: "fixed-price", itemIds: ["kfc_biscuit"], price: 140 } },
+    { id: "kfc_cp_paripari", name: "レモン香る旨塩チキン 40円引き No.957", until: "6/2", rule: { kind: "amount-off", itemIds: ["kfc_c_paripari"], amount: 40 } },
+  ],
 };
 
 export default kfc;
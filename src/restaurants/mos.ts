@@ -1,13 +1,15 @@
 import type { Restaurant } from "../types";
 
-// 価格は税込・2025〜2026年時点の公式メニューに基づく
-// 抹茶シェイクSはクーポン適用価格(330円)で登録
+// 価格は税込（店内飲食 10%）・2025〜2026年時点の公式メニューに基づく
+// 持ち帰りの価格は本体価格から 8% で計算する（src/tax.ts）
+// 抹茶シェイクSのクーポン価格(330円)は coupons で扱う
 
 const mos: Restaurant = {
   id: "mos",
   name: "モスバーガー",
   categories: ["バーガー", "サイド", "ドリンク", "シェイク"],
   defaultTargets: { budget: 1000 },
+  takeout: true,
   tagOrder: ["ハンバーガー類", "ダブル", "ライス・ドッグ", "菜摘", "ホット", "コールド"],
   iframeSrc: "mos-sim.html",
 
@@ -92,9 +94,13 @@ const mos: Restaurant = {
     { id: "mos_sh_vanilla_m",      name: "モスシェイク バニラ M",           category: "シェイク", price: 360 },
     { id: "mos_sh_coffee_s",       name: "モスシェイク コーヒー S",         category: "シェイク", price: 290 },
     { id: "mos_sh_coffee_m",       name: "モスシェイク コーヒー M",         category: "シェイク", price: 360 },
-    { id: "mos_sh_matcha_s",       name: "まぜるシェイク 出雲の抹茶 S (クーポン価格)", category: "シェイク", price: 330 },
+    { id: "mos_sh_matcha_s",       name: "まぜるシェイク 出雲の抹茶 S",     category: "シェイク", price: 350 },
     { id: "mos_sh_matcha_m",       name: "まぜるシェイク 出雲の抹茶 M",     category: "シェイク", price: 430 },
   ],
+
+  coupons: [
+    { id: "mos_cp_matcha_s", name: "抹茶シェイクS クーポン価格", rule: { kind: "fixed-price", itemIds: ["mos_sh_matcha_s"], price: 330 } },
+  ],
 };
 
 export default mos;
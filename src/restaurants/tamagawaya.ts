@@ -1,9 +1,10 @@
 import type { Restaurant } from "../types";
 
-// 価格は公式サイト（https://www.wagashi-tamagawaya.com/menu）の税込表記に基づく
+// 価格は公式サイト（https://www.wagashi-tamagawaya.com/menu）の税込表記に基づく（持ち帰り専門のため軽減税率 8%）
 // 画像は公式サイト上のURLを直リンク参照（ダウンロード・同梱はしない）
 // period = 公式サイトに明記された「販売期間」（季節限定品のみ・通年品は無指定）
 // expiry = 公式サイトに明記された「賞味期限」「消費期限」（原文のまま引用）
+// pack = 入り数違いの同じ商品（一個・三個入…）。個数を指定していちばん安い箱の組み合わせを選ぶのに使う
 // 除外品: 価格未記載品（栗きんとん・紅白饅頭）、販売休止中品（花見団子・チョコレート饅頭）、
 //         重量で価格変動する品（蓮の上・蓮の葉入り）、慶弔用のお赤飯（別価格のため対象外）
 
@@ -12,31 +13,43 @@ const tamagawaya: Restaurant = {
   name: "玉川屋",
   categories: ["年間", "春", "夏", "秋", "冬", "お彼岸・お盆", "慶弔"],
   defaultTargets: { budget: 1000 },
+  taxRate: 8,
   tagOrder: [],
+  // 詰め合わせ：箱の規格は公式サイトに記載がないため、入り数はよく使う数を目安として並べている
+  // パック・棹物・団子など箱に入らない品は除く
+  assortment: {
+    capacities: [5, 6, 8, 10, 12, 15, 20],
+    categories: ["年間", "春", "夏", "秋", "冬", "お彼岸・お盆"],
+    excludedIds: [
+      "tg_castella", "tg_sekihan_400", "tg_sekihan_270",
+      "tg_kurimushi_yokan_sao", "tg_kurimushi_yokan_hansao", "tg_tsukimi_dango",
+      "tg_omukae_dango", "tg_itokiri_dango_l", "tg_itokiri_dango_s", "tg_hasu_pack",
+    ],
+  },
 
   items: [
     // ──── 年間の和菓子（販売期間の定めなし・賞味/消費期限のみ）────
-    { id: "tg_niou_1", name: "仁王餅（一個）", category: "年間", price: 180, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/cd198699.JPG", expiry: "消費期限 翌日" },
-    { id: "tg_niou_3", name: "仁王餅（三個入）", category: "年間", price: 570, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/cd198699.JPG", expiry: "消費期限 翌日" },
-    { id: "tg_niou_6", name: "仁王餅（六個入）", category: "年間", price: 1150, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/cd198699.JPG", expiry: "消費期限 翌日" },
-    { id: "tg_niou_10", name: "仁王餅（十個入）", category: "年間", price: 1920, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/cd198699.JPG", expiry: "消費期限 翌日" },
+    { id: "tg_niou_1", name: "仁王餅（一個）", category: "年間", price: 180, pack: { family: "仁王餅", pieces: 1 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/cd198699.JPG", expiry: "消費期限 翌日" },
+    { id: "tg_niou_3", name: "仁王餅（三個入）", category: "年間", price: 570, pack: { family: "仁王餅", pieces: 3 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/cd198699.JPG", expiry: "消費期限 翌日" },
+    { id: "tg_niou_6", name: "仁王餅（六個入）", category: "年間", price: 1150, pack: { family: "仁王餅", pieces: 6 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/cd198699.JPG", expiry: "消費期限 翌日" },
+    { id: "tg_niou_10", name: "仁王餅（十個入）", category: "年間", price: 1920, pack: { family: "仁王餅", pieces: 10 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/cd198699.JPG", expiry: "消費期限 翌日" },
 
-    { id: "tg_butter_dora_1", name: "バターどら焼き（一個）", category: "年間", price: 250, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/620c352f.JPG", expiry: "賞味期限 10日" },
-    { id: "tg_butter_dora_6", name: "バターどら焼き（六個入）", category: "年間", price: 1740, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/620c352f.JPG", expiry: "賞味期限 10日" },
-    { id: "tg_butter_dora_10", name: "バターどら焼き（十個入）", category: "年間", price: 2740, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/620c352f.JPG", expiry: "賞味期限 10日" },
-    { id: "tg_butter_dora_15", name: "バターどら焼き（十五個入）", category: "年間", price: 3990, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/620c352f.JPG", expiry: "賞味期限 10日" },
-    { id: "tg_butter_dora_20", name: "バターどら焼き（二十個入）", category: "年間", price: 5320, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/620c352f.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_butter_dora_1", name: "バターどら焼き（一個）", category: "年間", price: 250, pack: { family: "バターどら焼き", pieces: 1 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/620c352f.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_butter_dora_6", name: "バターどら焼き（六個入）", category: "年間", price: 1740, pack: { family: "バターどら焼き", pieces: 6 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/620c352f.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_butter_dora_10", name: "バターどら焼き（十個入）", category: "年間", price: 2740, pack: { family: "バターどら焼き", pieces: 10 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/620c352f.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_butter_dora_15", name: "バターどら焼き（十五個入）", category: "年間", price: 3990, pack: { family: "バターどら焼き", pieces: 15 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/620c352f.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_butter_dora_20", name: "バターどら焼き（二十個入）", category: "年間", price: 5320, pack: { family: "バターどら焼き", pieces: 20 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/620c352f.JPG", expiry: "賞味期限 10日" },
 
-    { id: "tg_kokuto_dora_1", name: "黒糖どら焼き（一個）", category: "年間", price: 250, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/d6fa816a.JPG", expiry: "賞味期限 10日" },
-    { id: "tg_kokuto_dora_6", name: "黒糖どら焼き（六個入）", category: "年間", price: 1740, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/d6fa816a.JPG", expiry: "賞味期限 10日" },
-    { id: "tg_kokuto_dora_10", name: "黒糖どら焼き（十個入）", category: "年間", price: 2740, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/d6fa816a.JPG", expiry: "賞味期限 10日" },
-    { id: "tg_kokuto_dora_15", name: "黒糖どら焼き（十五個入）", category: "年間", price: 3990, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/d6fa816a.JPG", expiry: "賞味期限 10日" },
-    { id: "tg_kokuto_dora_20", name: "黒糖どら焼き（二十個入）", category: "年間", price: 5320, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/d6fa816a.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_kokuto_dora_1", name: "黒糖どら焼き（一個）", category: "年間", price: 250, pack: { family: "黒糖どら焼き", pieces: 1 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/d6fa816a.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_kokuto_dora_6", name: "黒糖どら焼き（六個入）", category: "年間", price: 1740, pack: { family: "黒糖どら焼き", pieces: 6 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/d6fa816a.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_kokuto_dora_10", name: "黒糖どら焼き（十個入）", category: "年間", price: 2740, pack: { family: "黒糖どら焼き", pieces: 10 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/d6fa816a.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_kokuto_dora_15", name: "黒糖どら焼き（十五個入）", category: "年間", price: 3990, pack: { family: "黒糖どら焼き", pieces: 15 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/d6fa816a.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_kokuto_dora_20", name: "黒糖どら焼き（二十個入）", category: "年間", price: 5320, pack: { family: "黒糖どら焼き", pieces: 20 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/d6fa816a.JPG", expiry: "賞味期限 10日" },
 
-    { id: "tg_kurifudo_1", name: "栗不動（一個）", category: "年間", price: 260, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/8c727c0e.JPG", expiry: "賞味期限 10日" },
-    { id: "tg_kurifudo_9", name: "栗不動（九個入）", category: "年間", price: 2580, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/8c727c0e.JPG", expiry: "賞味期限 10日" },
-    { id: "tg_kurifudo_12", name: "栗不動（十二個入）", category: "年間", price: 3360, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/8c727c0e.JPG", expiry: "賞味期限 10日" },
-    { id: "tg_kurifudo_16", name: "栗不動（十六個入）", category: "年間", price: 4400, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/8c727c0e.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_kurifudo_1", name: "栗不動（一個）", category: "年間", price: 260, pack: { family: "栗不動", pieces: 1 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/8c727c0e.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_kurifudo_9", name: "栗不動（九個入）", category: "年間", price: 2580, pack: { family: "栗不動", pieces: 9 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/8c727c0e.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_kurifudo_12", name: "栗不動（十二個入）", category: "年間", price: 3360, pack: { family: "栗不動", pieces: 12 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/8c727c0e.JPG", expiry: "賞味期限 10日" },
+    { id: "tg_kurifudo_16", name: "栗不動（十六個入）", category: "年間", price: 4400, pack: { family: "栗不動", pieces: 16 }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/8c727c0e.JPG", expiry: "賞味期限 10日" },
 
     { id: "tg_meguro_ume", name: "目黒の梅", category: "年間", price: 260, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/9d7f7806.JPG", expiry: "賞味期限 10日" },
     { id: "tg_kurman", name: "栗まん", category: "年間", price: 210, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/b374be4a.JPG", expiry: "賞味期限 10日" },
@@ -49,8 +62,8 @@ const tamagawaya: Restaurant = {
     { id: "tg_sekihan_400", name: "お赤飯（400gパック）", category: "年間", price: 1080, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/45c2eba9.JPG", expiry: "消費期限 当日" },
     { id: "tg_sekihan_270", name: "お赤飯（270gパック）", category: "年間", price: 730, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/45c2eba9.JPG", expiry: "消費期限 当日" },
     { id: "tg_mamedaifuku", name: "豆大福", category: "年間", price: 190, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/003da94b.JPG", expiry: "消費期限 当日" },
-    { id: "tg_mitarashi_2", name: "みたらし団子（二本入り）", category: "年間", price: 260, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/4209b997.JPG", expiry: "消費期限 当日" },
-    { id: "tg_mitarashi_3", name: "みたらし団子（三本入り）", category: "年間", price: 380, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/4209b997.JPG", expiry: "消費期限 当日" },
+    { id: "tg_mitarashi_2", name: "みたらし団子（二本入り）", category: "年間", price: 260, pack: { family: "みたらし団子", pieces: 2, unit: "本" }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/4209b997.JPG", expiry: "消費期限 当日" },
+    { id: "tg_mitarashi_3", name: "みたらし団子（三本入り）", category: "年間", price: 380, pack: { family: "みたらし団子", pieces: 3, unit: "本" }, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/4209b997.JPG", expiry: "消費期限 当日" },
     { id: "tg_tamagawaya_manju", name: "玉川屋饅頭", category: "年間", price: 160, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/5c77fdbd.JPG", expiry: "消費期限 3日" },
     { id: "tg_siberia", name: "シベリア", category: "年間", price: 200, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/3a36d181.JPG", expiry: "賞味期限 4日 要冷蔵" },
     { id: "tg_fu_manju", name: "麩まんじゅう", category: "年間", price: 230, image: "https://www.wagashi-tamagawaya.com/_p/4630/images/pc/6a204a32.JPG", expiry: "賞味期限 翌日 要冷蔵" },
@@ -0,0 +1,123 @@
+import type { Item } from "./types";
+
+// ============================================================
+// セットと単品の比較：純関数
+// Item.components（セットの中身）から「単品で頼むといくらか」を出し、
+// カートをいちばん安いセット・単品の組み合わせに組み替える
+// ============================================================
+
+// 単品で頼んだ場合の合計（中身がメニューにない場合は null）
+export function partsPrice(set: Item, byId: Map<string, Item>): number | null {
+  if (!set.components) return null;
+  let total = 0;
+  for (const [id, n] of Object.entries(set.components)) {
+    const part = byId.get(id);
+    if (!part) return null;
+    total += part.price * n;
+  }
+  return total;
+}
+
+// セットにすると単品合計よりいくら安いか（セットでない品は null）
+export function setSavings(set: Item, byId: Map<string, Item>): number | null {
+  const parts = partsPrice(set, byId);
+  return parts === null ? null : parts - set.price;
+}
+
+const MAX_NODES = 20000; // 組み替え探索の打ち切りノード数（数量の変更ごとに走るので小さめ）
+
+export type SetPlan = {
+  qty: Record<string, number>; // 組み替え後の数量（カート全体）
+  before: number; // 組み替え対象の行の合計（組み替え前）
+  after: number;  // 同（組み替え後）
+  sets: { itemId: string; qty: number }[]; // 組み替え後に含まれるセット
+};
+
+// 中身が同じになる範囲で、カートをいちばん安いセット・単品の組み合わせにする。
+// トッピングを付けている品は組み替えない。安くならなければ null
+export function optimizeSets(
+  items: Item[],
+  qty: Record<string, number>,
+  addonSelections: Record<string, string[]> = {}
+): SetPlan | null {
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const hasAddons = (id: string) => (addonSelections[id]?.length ?? 0) > 0;
+  // トッピング付きの品を中身に含むセットも使わない（組み替えるとトッピングの付く先が変わる）
+  const sets = items.filter(
+    (it) => partsPrice(it, byId) !== null && !hasAddons(it.id) && !Object.keys(it.components!).some(hasAddons)
+  );
+  const movable = (id: string) => (qty[id] ?? 0) > 0 && !hasAddons(id);
+
+  // カートの中身を単品に展開する
+  const demand: Record<string, number> = {};
+  const touched: string[] = [];
+  for (const [id, q] of Object.entries(qty)) {
+    if (!movable(id) || !byId.has(id)) continue;
+    const set = sets.find((s) => s.id === id);
+    const parts = set?.components ?? { [id]: 1 };
+    const involved = set || sets.some((s) => s.components![id]);
+    if (!involved) continue;
+    touched.push(id);
+    for (const [pid, n] of Object.entries(parts)) demand[pid] = (demand[pid] ?? 0) + n * q;
+  }
+  if (touched.length === 0) return null;
+
+  const before = touched.reduce((s, id) => s + byId.get(id)!.price * qty[id], 0);
+  const keys = Object.keys(demand);
+  const unit = keys.map((pid) => byId.get(pid)!.price);
+  const value = (comps: Record<string, number>) => keys.reduce((s, pid, k) => s + (comps[pid] ?? 0) * unit[k], 0);
+  // 割安なセットから試す（早く良い解が見つかるほど枝刈りが効く）
+  const candidates = sets
+    .filter((s) => Object.keys(s.components!).every((pid) => pid in demand))
+    .sort((a, b) => a.price / value(a.components!) - b.price / value(b.components!));
+  const comps = candidates.map((s) => keys.map((pid) => s.components![pid] ?? 0));
+
+  // 下限見積もり：各単品1個を、それを含むセットの割安率（セット価格 ÷ 中身の単品合計）で買えたとする
+  const rate = keys.map((_, k) =>
+    Math.min(1, ...candidates.filter((_, j) => comps[j][k] > 0).map((s) => s.price / value(s.components!)))
+  );
+  const lowerBound = (rest: number[]) => rest.reduce((s, n, k) => s + n * unit[k] * rate[k], 0);
+
+  // セットごとの個数を上から決める分枝限定法。個数の上限は floor(min(残り需要 / 中身の個数))。
+  // 個数が多いと状態が爆発するので、ノード数に上限を設けて打ち切る（それまでの最良案を使う）
+  const counts = candidates.map(() => 0);
+  let best = { cost: keys.reduce((s, pid, k) => s + demand[pid] * unit[k], 0), counts: [...counts] };
+  let nodes = 0;
+  const search = (j: number, rest: number[], cost: number) => {
+    if (++nodes > MAX_NODES) return;
+    if (cost + lowerBound(rest) >= best.cost) return;
+    if (j === candidates.length) {
+      const total = cost + rest.reduce((s, n, k) => s + n * unit[k], 0);
+      if (total < best.cost) best = { cost: total, counts: [...counts] };
+      return;
+    }
+    const max = Math.min(...comps[j].map((n, k) => (n > 0 ? Math.floor(rest[k] / n) : Infinity)));
+    for (let c = max; c >= 0; c--) {
+      counts[j] = c;
+      search(j + 1, rest.map((n, k) => n - comps[j][k] * c), cost + candidates[j].price * c);
+    }
+    counts[j] = 0;
+  };
+  search(0, keys.map((pid) => demand[pid]), 0);
+  if (best.cost >= before) return null;
+
+  const nextQty: Record<string, number> = { ...qty };
+  for (const id of touched) nextQty[id] = 0;
+  const rest = keys.map((pid) => demand[pid]);
+  const setQty: Record<string, number> = {};
+  best.counts.forEach((c, j) => {
+    if (c === 0) return;
+    setQty[candidates[j].id] = c;
+    keys.forEach((_, k) => (rest[k] -= comps[j][k] * c));
+  });
+  for (const [id, n] of Object.entries(setQty)) nextQty[id] = (nextQty[id] ?? 0) + n;
+  keys.forEach((pid, k) => {
+    if (rest[k] > 0) nextQty[pid] = (nextQty[pid] ?? 0) + rest[k];
+  });
+  return {
+    qty: nextQty,
+    before,
+    after: best.cost,
+    sets: Object.entries(setQty).map(([itemId, q]) => ({ itemId, qty: q })),
+  };
+}
@@ -0,0 +1,110 @@
+import type { Item, Diner, BillSplit } from "./types";
+
+// ============================================================
+// 割り勘の計算：純関数
+// ============================================================
+
+export type SplitLine = {
+  itemId: string;
+  amount: number; // 行の金額（トッピング込み × 数量）
+};
+
+export type DinerShare = {
+  diner: Diner;
+  exact: number;  // 丸める前の負担額（クーポンの割引を按分済み）
+  amount: number; // 実際に払う額（幹事は端数込み）
+};
+
+// カートの行（数量0の品は除く）
+export function splitLines(items: Item[], qty: Record<string, number>, addonSelections: Record<string, string[]>): SplitLine[] {
+  const byId = new Map(items.map((it) => [it.id, it]));
+  return items
+    .filter((it) => (qty[it.id] ?? 0) > 0)
+    .map((it) => {
+      const addons = (addonSelections[it.id] ?? []).reduce((s, aid) => s + (byId.get(aid)?.price ?? 0), 0);
+      return { itemId: it.id, amount: (it.price + addons) * qty[it.id] };
+    });
+}
+
+// 行を分ける人と割合。指定がない（または全員0）なら全員均等
+export function lineWeights(split: BillSplit, itemId: string): Map<string, number> {
+  const given = split.shares[itemId] ?? {};
+  const weights = new Map(
+    split.diners.filter((d) => (given[d.id] ?? 0) > 0).map((d) => [d.id, given[d.id]])
+  );
+  return weights.size > 0 ? weights : new Map(split.diners.map((d) => [d.id, 1]));
+}
+
+// total は割引後の支払額。割引は各人の負担額に比例して配り、
+// 幹事以外は rounding 円単位に四捨五入、残りを幹事が払う。
+// 四捨五入で幹事以外の合計が total を超える（幹事がマイナスになる）ときは、幹事以外を切り捨てにする
+export function splitBill(lines: SplitLine[], total: number, split: BillSplit): DinerShare[] {
+  const exact = new Map(split.diners.map((d) => [d.id, 0]));
+  for (const line of lines) {
+    const weights = lineWeights(split, line.itemId);
+    const sum = [...weights.values()].reduce((s, w) => s + w, 0);
+    for (const [id, w] of weights) exact.set(id, exact.get(id)! + (line.amount * w) / sum);
+  }
+  const listTotal = lines.reduce((s, l) => s + l.amount, 0);
+  const ratio = listTotal > 0 ? total / listTotal : 0;
+  const roundWith = (f: (x: number) => number) =>
+    split.diners.map((diner) => {
+      const e = exact.get(diner.id)! * ratio;
+      return { diner, exact: e, amount: Math.max(0, f(e / split.rounding) * split.rounding) };
+    });
+  const organizerOf = (shares: DinerShare[]) => shares.find((s) => s.diner.id === split.organizerId) ?? shares[0];
+  const othersSum = (shares: DinerShare[]) =>
+    shares.filter((s) => s !== organizerOf(shares)).reduce((s, x) => s + x.amount, 0);
+  let shares = roundWith(Math.round);
+  if (othersSum(shares) > total) shares = roundWith(Math.floor);
+  const organizer = organizerOf(shares);
+  if (organizer) organizer.amount = Math.max(0, total - othersSum(shares));
+  return shares;
+}
+
+export const newDiner = (name: string): Diner => ({
+  id: `diner_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+  name,
+});
+
+export function defaultSplit(): BillSplit {
+  const me = { ...newDiner("自分"), id: "diner_me" };
+  return { diners: [me, newDiner("2人目")], organizerId: me.id, rounding: 10, shares: {} };
+}
+
+// 保存・共有用：カートにない品の割合を落とす
+export const compactSplit = (split: BillSplit, qty: Record<string, number>): BillSplit => ({
+  ...split,
+  shares: Object.fromEntries(Object.entries(split.shares).filter(([id]) => (qty[id] ?? 0) > 0)),
+});
+
+// URL・インポートから読んだ値の検証（割合は有限の 0 以上の数値）
+export function isBillSplit(v: unknown): v is BillSplit {
+  if (!v || typeof v !== "object") return false;
+  const o = v as Record<string, unknown>;
+  return (
+    Array.isArray(o.diners) &&
+    o.diners.length > 0 &&
+    o.diners.every((d) => d && typeof d.id === "string" && typeof d.name === "string") &&
+    typeof o.organizerId === "string" &&
+    [1, 10, 100].includes(o.rounding as number) &&
+    o.shares !== null &&
+    typeof o.shares === "object" &&
+    Object.values(o.shares).every(
+      (given) =>
+        given !== null &&
+        typeof given === "object" &&
+        Object.values(given).every((w) => typeof w === "number" && Number.isFinite(w) && w >= 0)
+    )
+  );
+}
+
+// 注文一覧に出す割り当て（例: "太郎×2・花子×0.5"）。割り当てのない品・1人のときは null
+export function assignmentLabel(split: BillSplit, itemId: string): string | null {
+  const given = split.shares[itemId];
+  if (!given || split.diners.length < 2) return null;
+  const parts = split.diners
+    .filter((d) => (given[d.id] ?? 0) > 0)
+    .map((d) => `${d.name}×${Number(given[d.id].toFixed(2))}`);
+  return parts.length > 0 ? parts.join("・") : null;
+}
@@ -0,0 +1,113 @@
+import type { Item, Targets, BudgetSearchConfig } from "./types";
+
+// ============================================================
+// 目標（Targets）の達成状況と、予算探索の条件への変換：純関数
+// ============================================================
+
+export type TargetProgress = {
+  key: string;   // React の key・削除時の識別用（"budget" / "category:デザート" など）
+  label: string; // 例: "デザート 300円まで"
+  current: number;
+  goal: number;
+  kind: "max" | "min"; // max = goal 以下が達成 / min = goal 以上が達成
+  unit: "円" | "品";
+  ok: boolean;
+};
+
+// total は割引後の支払額（予算の判定に使う）。最低金額はクーポンの利用条件なので割引前の合計で判定する
+export function evaluateTargets(
+  targets: Targets,
+  items: Item[],
+  qty: Record<string, number>,
+  addonSelections: Record<string, string[]>,
+  total: number
+): TargetProgress[] {
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const lines = items
+    .filter((it) => (qty[it.id] ?? 0) > 0)
+    .map((it) => ({
+      item: it,
+      qty: qty[it.id],
+      amount: (it.price + (addonSelections[it.id] ?? []).reduce((s, aid) => s + (byId.get(aid)?.price ?? 0), 0)) * qty[it.id],
+    }));
+  const count = lines.reduce((s, l) => s + l.qty, 0);
+  const listPrice = lines.reduce((s, l) => s + l.amount, 0);
+  const out: TargetProgress[] = [];
+  const push = (p: Omit<TargetProgress, "ok">) =>
+    out.push({ ...p, ok: p.kind === "max" ? p.current <= p.goal : p.current >= p.goal });
+
+  if (targets.budget !== undefined) {
+    push({ key: "budget", label: `予算 ${targets.budget.toLocaleString("ja-JP")}円まで`, current: total, goal: targets.budget, kind: "max", unit: "円" });
+  }
+  if (targets.minSpend !== undefined) {
+    push({ key: "minSpend", label: `${targets.minSpend.toLocaleString("ja-JP")}円以上`, current: listPrice, goal: targets.minSpend, kind: "min", unit: "円" });
+  }
+  if (targets.minItems !== undefined) {
+    push({ key: "minItems", label: `${targets.minItems}品以上`, current: count, goal: targets.minItems, kind: "min", unit: "品" });
+  }
+  for (const [cat, limit] of Object.entries(targets.categoryBudgets ?? {})) {
+    const spent = lines.filter((l) => l.item.category === cat).reduce((s, l) => s + l.amount, 0);
+    push({ key: `category:${cat}`, label: `${cat} ${limit.toLocaleString("ja-JP")}円まで`, current: spent, goal: limit, kind: "max", unit: "円" });
+  }
+  for (const [tag, min] of Object.entries(targets.tagMins ?? {})) {
+    const n = lines.filter((l) => l.item.tags?.includes(tag)).reduce((s, l) => s + l.qty, 0);
+    push({ key: `tag:${tag}`, label: `#${tag} を${min}品以上`, current: n, goal: min, kind: "min", unit: "品" });
+  }
+  return out;
+}
+
+// 目標を1つ外す（key は TargetProgress.key）
+export function removeTarget(targets: Targets, key: string): Targets {
+  const next = { ...targets };
+  const [kind, name] = key.includes(":") ? [key.slice(0, key.indexOf(":")), key.slice(key.indexOf(":") + 1)] : [key, ""];
+  if (kind === "category") {
+    next.categoryBudgets = { ...next.categoryBudgets };
+    delete next.categoryBudgets[name];
+  } else if (kind === "tag") {
+    next.tagMins = { ...next.tagMins };
+    delete next.tagMins[name];
+  } else {
+    delete next[kind as "budget" | "minSpend" | "minItems"];
+  }
+  return next;
+}
+
+// 目標から予算探索の条件を作る。条件どおりに移せない目標は adjusted で知らせる：
+// - 最低金額が予算を上回る → 範囲が空になるので、上限を最低金額まで上げる
+// - カテゴリ別の金額上限 → 探索条件には金額の上限がないので、上限を超える品を除外し、
+//   「上限 ÷ そのカテゴリの最安値」品までのカテゴリ上限にする（合計額は結果の目標表示で確認）
+export function seedSearchConfig(
+  targets: Targets,
+  items: Item[],
+  config: BudgetSearchConfig
+): { config: BudgetSearchConfig; adjusted: string[] } {
+  const next: BudgetSearchConfig = { ...config };
+  const adjusted: string[] = [];
+  if (targets.budget !== undefined) next.budget = targets.budget;
+  if (targets.minSpend !== undefined) {
+    next.mode = "range";
+    next.minBudget = targets.minSpend;
+    if (targets.budget !== undefined && targets.budget < targets.minSpend) {
+      adjusted.push(`最低金額 ${targets.minSpend}円 が予算 ${targets.budget}円 を上回るため、上限を ${targets.minSpend}円 にしました`);
+    }
+    next.budget = Math.max(next.budget, targets.minSpend);
+  }
+  if (targets.minItems !== undefined) {
+    next.minItems = targets.minItems;
+    next.maxItems = Math.max(next.maxItems, targets.minItems);
+  }
+  if (targets.tagMins) next.tagMins = { ...config.tagMins, ...targets.tagMins };
+  for (const [cat, limit] of Object.entries(targets.categoryBudgets ?? {})) {
+    const inCategory = items.filter((it) => it.category === cat);
+    const over = inCategory.filter((it) => it.price > limit).map((it) => it.id);
+    const cheapest = Math.min(...inCategory.map((it) => it.price));
+    const count = cheapest > 0 && Number.isFinite(cheapest) ? Math.floor(limit / cheapest) : 0;
+    next.excludedIds = [...new Set([...next.excludedIds, ...over])];
+    next.requiredIds = next.requiredIds.filter((id) => !over.includes(id));
+    next.categoryLimits = { ...next.categoryLimits, [cat]: Math.min(next.categoryLimits[cat] ?? Infinity, count) };
+    adjusted.push(
+      `${cat}の金額上限 ${limit}円 は「${cat}を${count}品まで」として探索します（${cat}の合計額は目標の表示で確認してください）`
+    );
+  }
+  return { config: next, adjusted };
+}
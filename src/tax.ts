@@ -0,0 +1,60 @@
+import type { Item, Restaurant, TaxMode, Coupon } from "./types";
+
+// ============================================================
+// 消費税（店内飲食 10% / 持ち帰り 8%）：純関数
+// 店舗データの price は Restaurant.taxRate の税込価格として持ち、
+// もう一方の税率の価格は税抜の本体価格から計算する（1円未満切り捨て）
+// ============================================================
+
+export const TAX_RATES: Record<TaxMode, number> = { "eat-in": 10, takeout: 8 };
+
+export const TAX_MODE_LABELS: Record<TaxMode, string> = { "eat-in": "店内", takeout: "持ち帰り" };
+
+const storedRate = (restaurant: Restaurant) => restaurant.taxRate ?? 10;
+
+// 持ち帰りに対応していない店は、データの税率のモードに固定
+export function effectiveTaxMode(restaurant: Restaurant, mode: TaxMode): TaxMode {
+  if (restaurant.takeout) return mode;
+  return storedRate(restaurant) === TAX_RATES.takeout ? "takeout" : "eat-in";
+}
+
+export function basePriceOf(item: Item, restaurant: Restaurant): number {
+  const rate = storedRate(restaurant);
+  return item.basePrice ?? Math.round((item.price * 100) / (100 + rate));
+}
+
+export function priceIn(item: Item, restaurant: Restaurant, mode: TaxMode): number {
+  const rate = TAX_RATES[effectiveTaxMode(restaurant, mode)];
+  if (rate === storedRate(restaurant)) return item.price;
+  if (mode === "takeout" && item.takeoutPrice !== undefined) return item.takeoutPrice;
+  return Math.floor((basePriceOf(item, restaurant) * (100 + rate)) / 100);
+}
+
+// price をそのモードの税込価格に置き換えたメニュー（計算・探索はこれをそのまま使う）
+export function withTaxMode(restaurant: Restaurant, mode: TaxMode): Item[] {
+  const rate = TAX_RATES[effectiveTaxMode(restaurant, mode)];
+  if (rate === storedRate(restaurant)) return restaurant.items;
+  return restaurant.items.map((it) => ({ ...it, price: priceIn(it, restaurant, mode) }));
+}
+
+// クーポンの価格・値引き額も店舗データの税率の税込なので、品と同じ計算でそのモードの税込にする。
+// 会計全体の値引き（対象品なしの amount-off）は税率に関係ない金額なのでそのまま
+export function couponsWithTaxMode(restaurant: Restaurant, mode: TaxMode): Coupon[] {
+  const coupons = restaurant.coupons ?? [];
+  const rate = TAX_RATES[effectiveTaxMode(restaurant, mode)];
+  if (rate === storedRate(restaurant)) return coupons;
+  const convert = (yen: number) =>
+    Math.floor((Math.round((yen * 100) / (100 + storedRate(restaurant))) * (100 + rate)) / 100);
+  return coupons.map((c) => {
+    const rule = c.rule;
+    if (rule.kind === "fixed-price" || rule.kind === "bundle") return { ...c, rule: { ...rule, price: convert(rule.price) } };
+    if (rule.kind === "amount-off" && rule.itemIds) return { ...c, rule: { ...rule, amount: convert(rule.amount) } };
+    return c;
+  });
+}
+
+// 税込合計の内訳（内税。消費税額は1円未満切り捨て）
+export function taxBreakdown(total: number, rate: number) {
+  const tax = Math.floor((total * rate) / (100 + rate));
+  return { base: total - tax, tax };
+}
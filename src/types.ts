@@ -13,10 +13,66 @@ export type Item = {
   setCell?: [string, string]; // セットテーブルの配置 [列タグ, 行タグ]（任意）
   period?: string;   // 販売期間（季節限定品のみ。例:"5月中旬〜9月中旬"）カードに小さく表示（任意）
   expiry?: string;    // 賞味期限・消費期限（例:"消費期限 当日"）カードに小さく表示（任意）
+  availability?: Availability[]; // 販売時間帯（いずれかに当てはまれば注文可。省略時は終日）
+  basePrice?: number;    // 税抜の本体価格（省略時は price と Restaurant.taxRate から逆算）
+  takeoutPrice?: number; // 持ち帰りの税込価格（本体価格×1.08 と異なる値を公式が定めている場合のみ）
+  components?: Record<string, number>; // セットの中身（単品メニューのID → 個数）。セットのお得額・カートのまとめに使う
+  pack?: PackInfo; // 入り数違いで売っている品（一個・三個入…）の商品名と入り数
 };
 
+// 入り数（同じ family の品は中身が同じで、pieces だけが違う）
+export type PackInfo = {
+  family: string; // 商品名（例: "仁王餅"）
+  pieces: number; // 入り数
+  unit?: string;  // 数え方（省略時は "個"）
+};
+
+// 店内飲食（消費税10%）/ 持ち帰り（軽減税率8%）
+export type TaxMode = "eat-in" | "takeout";
+
+// 販売時間帯（例: ランチ 10:00〜15:00）
+export type Availability = {
+  from?: string;       // 開始時刻 "HH:MM"（省略時は開店から）
+  to?: string;         // 終了時刻 "HH:MM"（この時刻の前まで。from より前なら日をまたぐ）
+  weekdays?: number[]; // 曜日 0=日〜6=土（省略時は毎日）
+};
+
+// 注文する日時（曜日と時刻）
+export type OrderTime = {
+  weekday: number; // 0=日〜6=土
+  time: string;    // "HH:MM"
+};
+
+// 手土産の予定（日持ちチェック用。いずれも "YYYY-MM-DD"）
+export type GiftPlan = {
+  purchaseDate: string; // 買う日
+  handoutDate: string;  // 渡す日
+};
+
+// 販売期間（Item.period の文字列を parsePeriod で変換したもの）
+export type Dekad = "上旬" | "中旬" | "下旬"; // 1〜10日 / 11〜20日 / 21日〜月末
+
+export type SeasonPoint = {
+  month: number; // 1〜12
+  dekad?: Dekad; // 省略時は月全体（開始なら1日、終了なら月末）
+};
+
+// 年によって日付の変わる行事（「お彼岸のみ」「お盆限定」「十五夜限定」）
+export type SeasonalEvent = "お彼岸" | "お盆" | "十五夜";
+
+export type SalesPeriod =
+  | {
+      from: SeasonPoint;
+      to: SeasonPoint; // from より前なら年をまたぐ（例: 11月下旬〜2月上旬）
+    }
+  | { event: SeasonalEvent };
+
 export type Targets = {
   budget?: number; // 予算上限（円）
+  minSpend?: number; // 最低金額（円。例: クーポンの利用条件「1,000円以上」）
+  minItems?: number; // 品数の下限
+  categoryBudgets?: Record<string, number>; // カテゴリ名 → 金額上限（例: デザートは300円まで）
+  tagMins?: Record<string, number>; // タグ → 下限個数（例: 野菜を1品以上）
 };
 
 export type SavedCombo = {
@@ -26,6 +82,75 @@ export type SavedCombo = {
   qty: Record<string, number>;
   targets?: Targets;
   addonSelections?: Record<string, string[]>; // アイテムID → 選択中トッピングIDリスト
+  taxMode?: TaxMode; // 保存時の店内/持ち帰り（持ち帰りに対応した店のみ）
+  prices?: Record<string, number>; // 保存時の単価（アイテムID → 税込価格。トッピング含む）。価格改定後の比較用
+  boxes?: AssortmentBox[]; // 詰め合わせとして保存した場合の箱（qty は全箱の合計）
+  split?: BillSplit; // 割り勘の設定（2人以上で分けた場合のみ）
+};
+
+// ============================================================
+// 割り勘
+// ============================================================
+
+export type Diner = {
+  id: string;
+  name: string;
+};
+
+export type SplitRounding = 1 | 10 | 100; // 1人あたりの金額を何円単位にするか
+
+export type BillSplit = {
+  diners: Diner[];
+  organizerId: string; // 幹事（丸めた端数を負担する人）
+  rounding: SplitRounding;
+  // アイテムID → 人ID → 割合。指定のない品は全員で均等に分ける
+  // 例: { sz_pizza: { p1: 1, p2: 1 } } = ピザを p1・p2 で半分ずつ
+  shares: Record<string, Record<string, number>>;
+};
+
+// ============================================================
+// 詰め合わせ（箱詰め）
+// ============================================================
+
+export type AssortmentConfig = {
+  capacities: number[];  // 箱の入り数の候補（例: [6, 10, 15]）
+  categories: string[];  // 詰められる品のカテゴリ
+  excludedIds?: string[]; // カテゴリ内でも詰められない品（棹物・パック品など）
+};
+
+export type AssortmentBox = {
+  id: string;
+  capacity: number;
+  items: Record<string, number>; // アイテムID → 個数
+  copies: number; // 同じ中身の箱をいくつ作るか
+};
+
+// 価格改定（Restaurant.priceRevisions）。items の price は常に最新の価格にしておき、
+// 改定のたびに「変わった品の改定前の価格」をここに残す
+export type PriceRevision = {
+  date: string; // 改定日 "YYYY-MM-DD"（この日から新価格）
+  note?: string; // 出典など（例: "https://japan.kfc.co.jp/news_release/8147"）
+  before: Record<string, number>; // アイテムID → 改定前の価格（items と同じ税率の税込）
+};
+
+// ============================================================
+// クーポン・割引
+// ============================================================
+
+export type CouponRule =
+  | { kind: "fixed-price"; itemIds: string[]; price: number }    // 対象品1個が price 円になる
+  | { kind: "amount-off"; itemIds?: string[]; amount: number }   // 対象品1個につき amount 円引き（省略時は会計から1回）
+  | { kind: "percent-off"; itemIds?: string[]; percent: number } // 対象品（省略時は会計全体）を percent% 引き
+  | { kind: "bundle"; itemIds: string[]; price: number };        // itemIds を揃えると price 円（同じIDを並べれば複数個）
+
+export type Coupon = {
+  id: string;
+  name: string;       // 表示名（例: "ビスケット半額 No.932"）
+  rule: CouponRule;
+  minSpend?: number;  // 割引前の合計がこの金額以上のときだけ使える
+  maxUses?: number;   // 1会計で適用できる回数（個数・セット数）。省略時は無制限
+  exclusive?: boolean; // 他のクーポンと併用不可
+  until?: string;     // 期限の表示用（例: "6/2"）
 };
 
 // セットカテゴリを表形式で表示するための設定
@@ -41,33 +166,150 @@ export type SetTableConfig = {
 // 予算探索モード用の型
 // ============================================================
 
-export type BudgetSearchMode = "exact" | "maximize-price" | "maximize-count";
+export type BudgetSearchMode = "exact" | "range" | "maximize-price" | "maximize-count";
 
 export type BudgetSearchConfig = {
-  budget: number;
+  budget: number;     // 予算（range では上限）
+  minBudget?: number; // range の下限（省略時は budget と同じ＝ちょうど）
   maxItems: number; // 品数上限（既定4）
+  minItems?: number; // 品数下限（必須品込み。省略時は下限なし）
   mode: BudgetSearchMode;
   requiredIds: string[];
+  requiredQty?: Record<string, number>; // 必須品ID → 個数（省略時は1）
   excludedIds: string[];
   categoryLimits: Record<string, number>; // カテゴリ名 → 上限個数
+  categoryMins?: Record<string, number>; // カテゴリ名 → 下限個数
+  tagMins?: Record<string, number>; // タグ → 下限個数（例: 主食を1品以上）
+  tagLimits?: Record<string, number>; // タグ → 上限個数（例: 辛いは1品まで）
+  itemLimits?: Record<string, number>; // アイテムID → 上限個数
+  noDuplicates?: boolean; // 同じ品は1個まで
   groupEquivalents: boolean; // 同価格品をグループ化するか
+  categoryAddons?: Record<string, string[]>; // 指定時はトッピングを付けた組み合わせも探索（Restaurant.categoryAddons）
+  fillFromCart?: boolean; // 現在のカートに足す組み合わせを探す（「残りを埋める」）
+  locked?: BudgetSearchLocked; // fillFromCart 時に探索開始時点のカートを固定したもの
+  orderAt?: OrderTime; // 指定時はその日時に注文できない品を除く
+  saleDate?: string; // "YYYY-MM-DD"。指定時はその日に販売期間外の品を除く
+};
+
+// 「残りを埋める」探索で固定するカートの内容
+export type BudgetSearchLocked = {
+  lines: BudgetSearchResultLine[]; // カートの各行（トッピング込み）
+  total: number; // カートの合計金額（computeTotals の値）
 };
 
 export type BudgetSearchResultLine = {
   itemId: string;      // 反映時に採用する代表アイテムID（グループ時は先頭）
   groupIds: string[];  // 同価格候補（グループ化なしなら[itemId]のみ）
   qty: number;
+  addonIds?: string[]; // 付けるトッピング（categoryAddons 指定時、またはカートで選択中のもの）
+  locked?: boolean;    // カートから固定した行（反映時は追加分だけをカートに足す）
 };
 
 export type BudgetSearchResult = {
   lines: BudgetSearchResultLine[];
-  total: number;
-  count: number;
+  total: number; // 目的値①：合計金額
+  count: number; // 目的値②：品数
+  rank?: number;    // 選んだ目的での順位（1始まり。maximize-* のみ）
+  pareto?: boolean; // (金額, 品数) でパレート最適か（maximize-* のみ）
+};
+
+// グループ探索：1人ずつ予算と条件を決めて、人数分の組み合わせを探す
+export type GroupMember = {
+  diner: Diner;
+  budget: number;
+  maxItems: number;
+  mode: "maximize-price" | "maximize-count";
+  requiredIds: string[]; // 食べたい品
+  excludedIds: string[]; // 食べない品
+  noDuplicates?: boolean;
+};
+
+export type GroupSearchConfig = {
+  members: GroupMember[];
+  shared: Record<string, number>; // みんなで分ける品（アイテムID → 個数）。代金は全員で均等に負担する
+};
+
+export type GroupSearchResult = {
+  members: {
+    dinerId: string;
+    outcome: BudgetSearchOutcome; // その人の探索結果（候補は results に目的順）
+    sharedCost: number; // 分ける品の負担額（均等割り・端数あり）
+  }[];
+  sharedLines: BudgetSearchResultLine[];
+  sharedTotal: number;
 };
 
+// 組み合わせが見つからないときに、1つだけ緩めれば見つかる条件（patch を探索条件に重ねれば再探索できる）
+export type BudgetSearchRelaxation = (
+  | { kind: "budget"; budget: number } // 固定・必須品だけで予算を超えている
+  | { kind: "drop-required"; itemId: string }
+  | { kind: "max-items"; maxItems: number }
+  | { kind: "min-items"; minItems: number }
+  | { kind: "category-limit"; category: string; limit: number }
+  | { kind: "category-min"; category: string; min: number }
+  | { kind: "tag-limit"; tag: string; limit: number }
+  | { kind: "tag-min"; tag: string; min: number }
+  | { kind: "unexclude"; itemId: string }
+  | { kind: "item-limit"; itemId: string; limit: number }
+  | { kind: "allow-duplicates" }
+) & { patch: Partial<BudgetSearchConfig> };
+
 export type BudgetSearchOutcome =
-  | { kind: "unreachable"; nearestDown: number | null; nearestUp: number | null; gcd: number }
-  | { kind: "ok"; results: BudgetSearchResult[]; truncated: boolean; totalFound: number };
+  | {
+      kind: "unreachable";
+      nearestDown: number | null;
+      nearestUp: number | null;
+      gcd: number;
+      byCounts?: boolean; // 品数・タグ・カテゴリの下限に品数上限では届かない
+      relaxations?: BudgetSearchRelaxation[]; // 見つからない原因の候補
+    }
+  | {
+      kind: "ok";
+      results: BudgetSearchResult[]; // 表示中のページ（ちょうど・範囲探索以外は全件）
+      truncated: boolean; // 探索ノード上限で打ち切ったか
+      totalFound: number; // 見つかった組み合わせの総数（ちょうど・範囲探索では数え上げによる正確な値）
+      offset: number; // results[0] が全体の何件目か（0始まり）
+      pareto?: BudgetSearchResult[]; // (金額, 品数) のパレート前線・品数の多い順（maximize-* のみ）
+      relaxations?: BudgetSearchRelaxation[]; // 0件のときの原因の候補
+    }
+  // 探索中の例外（メモリ不足など）でワーカーが落ちた
+  | { kind: "error"; message: string };
+
+// ============================================================
+// 週間ランチ計画（平日5日分を店をまたいで組む）
+// ============================================================
+
+export type WeeklyPlanDay = {
+  label: string; // "月" など
+  restaurantId: string;
+  pinned?: Record<string, number>; // 固定した組み合わせ（アイテムID → 個数）。再計画しても変えない
+};
+
+export type WeeklyPlanConfig = {
+  weeklyBudget: number; // 週の予算（円）。固定した日の代金を引いた残りを、残りの日で均等に割って使う
+  days: WeeklyPlanDay[];
+  maxItems: number; // 1日の品数上限
+  mode: "maximize-price" | "maximize-count";
+  noRepeatDays: number; // 同じ品を N 日以内に繰り返さない（0 = 制限なし）
+  rotateCategories: boolean; // 前日（同じ店）のメインと同じカテゴリの品を避ける
+  weekStart?: string; // 月曜日の日付 "YYYY-MM-DD"。指定時は各日の販売期間・昼12時の販売時間帯で絞る
+};
+
+export type WeeklyPlanDayResult = {
+  restaurantId: string;
+  qty: Record<string, number>; // 空 = 見つからなかった
+  total: number;
+  pinned: boolean;
+  notes: string[]; // 緩めた条件など
+};
+
+export type SavedWeeklyPlan = {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  config: WeeklyPlanConfig;
+  days: WeeklyPlanDayResult[];
+};
 
 export type Restaurant = {
   id: string;       // 識別子 例: "saizeriya"
@@ -78,6 +320,11 @@ export type Restaurant = {
   setTable?: SetTableConfig; // セットカテゴリを表形式で表示する設定（任意）
   tagOrder?: string[];       // タグの表示順序（省略時は出現順）
   categoryAddons?: Record<string, string[]>; // カテゴリ別トッピングショートカット（カテゴリ名 → トッピングIDリスト）
-  iframeSrc?: string; // 独自UIを持つ店舗: このURLをiframeで表示（設定時はSimulator.tsxをスキップ）
+  coupons?: Coupon[]; // 使えるクーポン（ユーザーが持っているものを選んで適用）
+  taxRate?: number;   // price に含まれる消費税率（%）。省略時は 10（店内飲食の価格）
+  takeout?: boolean;  // 持ち帰りに対応（店内/持ち帰りを切り替えて税率8%の価格でも計算できる）
+  priceRevisions?: PriceRevision[]; // 価格改定の履歴（古い順）。過去の日付時点のメニューを再現できる
+  assortment?: AssortmentConfig; // 詰め合わせを作れる店のみ
+  iframeSrc?: string; // 独自UIを持つ店舗: このURLをiframeで表示（上部のボタンからSimulator.tsxに切り替えられる）
   accentColor?: string; // ブランドカラー（HEX）。設定時はSimulator.tsxのアクセント色（選択済み/ボタン/タブ等）に反映。省略時はデフォルトのエメラルドグリーン
 };
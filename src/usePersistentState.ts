@@ -0,0 +1,25 @@
+import { useState, useEffect } from "react";
+
+// ============================================================
+// カスタムフック：localStorage に自動保存するステート
+// isValid を渡すと、保存値が壊れている（形が合わない）ときは initial に戻す
+// ============================================================
+
+export function usePersistentState<T>(key: string, initial: T, isValid?: (v: unknown) => boolean) {
+  const [state, setState] = useState<T>(() => {
+    try {
+      const raw = localStorage.getItem(key);
+      if (!raw) return initial;
+      const parsed: unknown = JSON.parse(raw);
+      return !isValid || isValid(parsed) ? (parsed as T) : initial;
+    } catch {
+      return initial;
+    }
+  });
+  useEffect(() => {
+    try {
+      localStorage.setItem(key, JSON.stringify(state));
+    } catch {}
+  }, [key, state]);
+  return [state, setState] as const;
+}
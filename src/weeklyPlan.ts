@@ -0,0 +1,181 @@
+import type {
+  Item,
+  Restaurant,
+  BudgetSearchConfig,
+  WeeklyPlanConfig,
+  WeeklyPlanDayResult,
+} from "./types";
+import { searchCombinations } from "./budgetSearch";
+import { addDays } from "./period";
+
+// ============================================================
+// 週間ランチ計画：純関数
+// 日ごとに searchCombinations を回し、週の予算の残りを次の日へ繰り越す
+// ============================================================
+
+export const WEEKDAY_LABELS = ["月", "火", "水", "木", "金"];
+const LUNCH_TIME = "12:00"; // 販売時間帯の判定に使う時刻
+
+export function defaultWeeklyConfig(restaurantId: string): WeeklyPlanConfig {
+  return {
+    weeklyBudget: 5000,
+    days: WEEKDAY_LABELS.map((label) => ({ label, restaurantId })),
+    maxItems: 3,
+    mode: "maximize-price",
+    noRepeatDays: 2,
+    rotateCategories: true,
+  };
+}
+
+// date を含む週の月曜日（"YYYY-MM-DD"）。曜日の判定（orderAt.weekday）は月曜始まりの前提なので、
+// weekStart はここで月曜にそろえてから使う
+export function mondayOf(date: string): string {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay(); // 0 = 日曜
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+export const qtyTotal = (items: Item[], qty: Record<string, number>) =>
+  items.reduce((s, it) => s + it.price * (qty[it.id] ?? 0), 0);
+
+// その日のメイン（いちばん代金の大きい品）のカテゴリ
+function mainCategory(items: Item[], qty: Record<string, number>): string | null {
+  let best: Item | null = null;
+  for (const it of items) {
+    if ((qty[it.id] ?? 0) > 0 && (!best || it.price * qty[it.id] > best.price * qty[best.id])) best = it;
+  }
+  return best?.category ?? null;
+}
+
+// pick(n) = n 件の候補から何番目を採るか（既定は1位。「別の案」ではランダムに選ぶ）
+export function planWeek(
+  config: WeeklyPlanConfig,
+  restaurants: Restaurant[],
+  pick: (n: number) => number = () => 0
+): WeeklyPlanDayResult[] {
+  const menuOf = (id: string) => restaurants.find((r) => r.id === id)?.items ?? [];
+  const pinnedTotal = config.days.reduce((s, d) => s + (d.pinned ? qtyTotal(menuOf(d.restaurantId), d.pinned) : 0), 0);
+  let remaining = config.weeklyBudget - pinnedTotal;
+  let unpinnedLeft = config.days.filter((d) => !d.pinned).length;
+  const results: WeeklyPlanDayResult[] = [];
+
+  config.days.forEach((day, i) => {
+    const items = menuOf(day.restaurantId);
+    if (day.pinned) {
+      results.push({ restaurantId: day.restaurantId, qty: day.pinned, total: qtyTotal(items, day.pinned), pinned: true, notes: [] });
+      return;
+    }
+    const budget = Math.floor(remaining / unpinnedLeft);
+    // 前後 N 日（前は計画済みの日、後ろは固定した日）に出てくる品は使わない
+    const nearby = [
+      ...results.slice(Math.max(0, i - config.noRepeatDays)).map((r) => r.qty),
+      ...config.days.slice(i + 1, i + 1 + config.noRepeatDays).flatMap((d) => (d.pinned ? [d.pinned] : [])),
+    ];
+    const repeated = config.noRepeatDays > 0 ? [...new Set(nearby.flatMap((q) => Object.keys(q)))] : [];
+    const prev = results[i - 1];
+    const rotated =
+      config.rotateCategories && prev && prev.restaurantId === day.restaurantId ? mainCategory(items, prev.qty) : null;
+
+    const base: BudgetSearchConfig = {
+      budget,
+      maxItems: config.maxItems,
+      mode: config.mode,
+      requiredIds: [],
+      excludedIds: repeated,
+      categoryLimits: rotated ? { [rotated]: 0 } : {},
+      groupEquivalents: false,
+      orderAt: { weekday: i + 1, time: LUNCH_TIME },
+      ...(config.weekStart && { saleDate: addDays(mondayOf(config.weekStart), i) }),
+    };
+    // 見つからなければカテゴリの入れ替え → 繰り返し禁止の順に緩める
+    const attempts: [BudgetSearchConfig, string[]][] = [
+      [base, []],
+      ...(rotated ? [[{ ...base, categoryLimits: {} }, [`${rotated}の連続を許可`]] as [BudgetSearchConfig, string[]]] : []),
+      ...(repeated.length > 0
+        ? [[{ ...base, categoryLimits: {}, excludedIds: [] }, ["同じ品の繰り返しを許可"]] as [BudgetSearchConfig, string[]]]
+        : []),
+    ];
+    let result: WeeklyPlanDayResult = { restaurantId: day.restaurantId, qty: {}, total: 0, pinned: false, notes: ["予算内の組み合わせなし"] };
+    for (const [cfg, notes] of attempts) {
+      const outcome = searchCombinations(items, cfg);
+      if (outcome.kind !== "ok" || outcome.results.length === 0) continue;
+      const chosen = outcome.results[Math.min(outcome.results.length - 1, pick(outcome.results.length))];
+      const qty = Object.fromEntries(chosen.lines.map((l) => [l.itemId, l.qty]));
+      result = {
+        restaurantId: day.restaurantId,
+        qty,
+        total: chosen.total,
+        pinned: false,
+        notes: outcome.truncated ? [...notes, "探索を打ち切り（最適でない場合あり）"] : notes,
+      };
+      break;
+    }
+    results.push(result);
+    remaining -= result.total;
+    unpinnedLeft--;
+  });
+  return results;
+}
+
+// ============================================================
+// 保存データの検証（localStorage・エクスポートしたファイルから読んだ値）
+// ============================================================
+
+const isCount = (v: unknown) => typeof v === "number" && Number.isFinite(v) && v >= 0;
+const isQty = (v: unknown) =>
+  !!v && typeof v === "object" && !Array.isArray(v) && Object.values(v).every(isCount);
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isWeeklyPlanConfig(v: unknown): v is WeeklyPlanConfig {
+  if (!v || typeof v !== "object") return false;
+  const o = v as Record<string, unknown>;
+  return (
+    isCount(o.weeklyBudget) &&
+    Array.isArray(o.days) &&
+    o.days.length === WEEKDAY_LABELS.length &&
+    o.days.every(
+      (d) =>
+        d &&
+        typeof d.label === "string" &&
+        typeof d.restaurantId === "string" &&
+        (d.pinned === undefined || isQty(d.pinned))
+    ) &&
+    Number.isInteger(o.maxItems) &&
+    (o.maxItems as number) >= 1 &&
+    (o.mode === "maximize-price" || o.mode === "maximize-count") &&
+    Number.isInteger(o.noRepeatDays) &&
+    (o.noRepeatDays as number) >= 0 &&
+    typeof o.rotateCategories === "boolean" &&
+    (o.weekStart === undefined || (typeof o.weekStart === "string" && DATE_RE.test(o.weekStart) && !isNaN(Date.parse(o.weekStart))))
+  );
+}
+
+export function isWeeklyPlanDayResult(v: unknown): v is WeeklyPlanDayResult {
+  if (!v || typeof v !== "object") return false;
+  const o = v as Record<string, unknown>;
+  return (
+    typeof o.restaurantId === "string" &&
+    isQty(o.qty) &&
+    isCount(o.total) &&
+    typeof o.pinned === "boolean" &&
+    Array.isArray(o.notes) &&
+    o.notes.every((n) => typeof n === "string")
+  );
+}
+
+// 計画結果（未計画なら null）
+export const isWeeklyPlanResult = (v: unknown): boolean =>
+  v === null || (Array.isArray(v) && v.length === WEEKDAY_LABELS.length && v.every(isWeeklyPlanDayResult));
+
+export function isSavedWeeklyPlan(v: unknown): boolean {
+  if (!v || typeof v !== "object") return false;
+  const o = v as Record<string, unknown>;
+  return (
+    typeof o.id === "string" &&
+    typeof o.name === "string" &&
+    typeof o.createdAt === "number" &&
+    isWeeklyPlanConfig(o.config) &&
+    Array.isArray(o.days) &&
+    o.days.length === WEEKDAY_LABELS.length &&
+    o.days.every(isWeeklyPlanDayResult)
+  );
+}